@@ -0,0 +1,385 @@
+import { parseArgs } from "util";
+import { z } from "zod";
+import { isCanRowType } from "./can";
+import { readConfigFile, validateConfig } from "./config";
+import { rawLogData } from "./data";
+import { createFillSessionTracker, type FillSession } from "./fills";
+import { decodeUDPHeader } from "./header";
+import {
+  decodeUDPLogRow,
+  getConfigSectionForDevice,
+  getUdpConfig,
+  resolveConfigMessage,
+  UDP_HEADER_LENGTH,
+  type LogRowWithDateAndMessageIDAndType,
+  type UdpConfig,
+} from "./index";
+import {
+  formatVarType,
+  interpretParamValue,
+  readFieldsByLabel,
+} from "./params";
+import { readJSONEachRow } from "./stream";
+
+/* ============================
+ * Schemas & Types
+ * ============================ */
+
+const ParameterNameSchema = z.object({
+  name: z.string(),
+  unit: z.string().optional(),
+});
+
+// Names and units by calibration parameter ID, per device
+const CalibrationNamesSchema = z.object({
+  dock: z.record(z.string(), ParameterNameSchema).default({}),
+  swarmbot: z.record(z.string(), ParameterNameSchema).default({}),
+});
+
+export type CalibrationNames = z.infer<typeof CalibrationNamesSchema>;
+
+export type CalibrationDevice = keyof CalibrationNames;
+
+/**
+ * One value a calibration parameter took, from the first frame that reported it.
+ */
+export interface CalibrationChange {
+  timestamp: number; // epoch ms
+  value: number | string; // interpreted by Var Type; 64-bit integers as decimal strings
+  previous: number | string | null; // null for the first value seen
+}
+
+/**
+ * The current value and change history of one calibration parameter element on one unit.
+ */
+export interface CalibrationParameter {
+  device: CalibrationDevice;
+  /** Source ID (header bytes 2..3), telling apart units of the same device type */
+  sourceId: number;
+  paramId: number;
+  index1: number;
+  index2: number;
+  name: string | null; // from the name mapping
+  unit: string | null; // from the name mapping
+  varType: string; // e.g. "REAL"
+  current: number | string;
+  lastSeen: number; // epoch ms of the last frame reporting it
+  history: CalibrationChange[]; // oldest first
+}
+
+/**
+ * A calibration change made after one fill ended and before the next started.
+ */
+export interface CalibrationChangeBetweenFills {
+  parameter: CalibrationParameter;
+  change: CalibrationChange;
+  previousRefillId: number;
+  nextRefillId: number | null; // null when no later fill was seen
+}
+
+export interface CalibrationTrackerOptions {
+  /** Config laying out Calibration Param. Defaults to the active config (see setUdpConfig). */
+  config?: UdpConfig;
+  names?: CalibrationNames;
+}
+
+export interface CalibrationTracker {
+  /** Feeds one log row; rows must arrive in time order. Other messages are ignored. */
+  add: (row: LogRowWithDateAndMessageIDAndType) => void;
+  /** Every parameter seen, ordered by device, source ID, parameter ID and index. */
+  parameters: () => CalibrationParameter[];
+}
+
+/* ============================
+ * Constants
+ * ============================ */
+
+// Calibration Param: the dock's responses and the swarmbot's requests
+const CALIBRATION_MESSAGE_IDS: Record<CalibrationDevice, number> = {
+  dock: 6,
+  swarmbot: 3,
+};
+
+// Dock "Resp"
+const RESP_WRITE_SUCCESS = 255;
+const RESP_READ_SUCCESS = 240;
+
+// Swarmbot "Req"
+const REQ_WRITE = 255;
+
+/* ============================
+ * Names
+ * ============================ */
+
+/**
+ * Validates a calibration name mapping.
+ * @throws ConfigValidationError listing every issue and its path
+ */
+export function parseCalibrationNames(
+  data: unknown,
+  source = "calibration names"
+): CalibrationNames {
+  return validateConfig(CalibrationNamesSchema, data, source);
+}
+
+/**
+ * Reads and validates a calibration name mapping from a JSON or YAML file.
+ */
+export async function loadCalibrationNamesFile(
+  path: string
+): Promise<CalibrationNames> {
+  return parseCalibrationNames(await readConfigFile(path), path);
+}
+
+/* ============================
+ * Tracker
+ * ============================ */
+
+/**
+ * Creates a tracker that reconstructs each calibration parameter's value history from
+ * Calibration Param frames, per sender (device ID and source ID). Dock values come from its
+ * successful responses; swarmbot values from its write requests (its reads carry no value).
+ * Repeated equal values are not changes.
+ */
+export function createCalibrationTracker(
+  options: CalibrationTrackerOptions = {}
+): CalibrationTracker {
+  const { config = getUdpConfig(), names = { dock: {}, swarmbot: {} } } =
+    options;
+  const parameters = new Map<string, CalibrationParameter>();
+
+  return {
+    add(row: LogRowWithDateAndMessageIDAndType): void {
+      if (!row || !Array.isArray(row.log) || isCanRowType(row.type)) return;
+      const header = decodeUDPHeader(row.log);
+      const device = header?.deviceName;
+      if (
+        !header ||
+        (device !== "dock" && device !== "swarmbot") ||
+        header.messageId !== CALIBRATION_MESSAGE_IDS[device]
+      ) {
+        return;
+      }
+      const { configMessage } = resolveConfigMessage(
+        getConfigSectionForDevice(config, device),
+        header.messageId
+      );
+      if (!configMessage) return;
+
+      const fields = readFieldsByLabel(
+        row.log.slice(UDP_HEADER_LENGTH),
+        configMessage
+      );
+      const isDock = device === "dock";
+      const paramId = fields.get(isDock ? "ID Resp" : "ID Req");
+      const raw = fields.get(isDock ? "Value Resp" : "Value");
+      const code = Number(fields.get(isDock ? "Resp" : "Req") ?? 0n);
+      const carriesValue = isDock
+        ? code === RESP_READ_SUCCESS || code === RESP_WRITE_SUCCESS
+        : code === REQ_WRITE;
+      if (paramId === undefined || raw === undefined || !carriesValue) return;
+
+      const varType = Number(fields.get("Var Type") ?? 0n);
+      const index1 = Number(fields.get("Index1") ?? 0n);
+      const index2 = Number(fields.get("Index2") ?? 0n);
+      const value = interpretParamValue(raw, varType);
+      const timestamp = Number(row.date);
+      const key = `${header.deviceId}:${header.sourceId}:${paramId}:${index1}:${index2}`;
+
+      const parameter = parameters.get(key);
+      if (!parameter) {
+        const mapped = names[device][String(paramId)];
+        parameters.set(key, {
+          device,
+          sourceId: header.sourceId,
+          paramId: Number(paramId),
+          index1,
+          index2,
+          name: mapped?.name ?? null,
+          unit: mapped?.unit ?? null,
+          varType: formatVarType(varType),
+          current: value,
+          lastSeen: timestamp,
+          history: [{ timestamp, value, previous: null }],
+        });
+        return;
+      }
+
+      parameter.lastSeen = timestamp;
+      parameter.varType = formatVarType(varType);
+      if (!Object.is(value, parameter.current)) {
+        parameter.history.push({
+          timestamp,
+          value,
+          previous: parameter.current,
+        });
+        parameter.current = value;
+      }
+    },
+
+    parameters: () =>
+      Array.from(parameters.values()).sort(
+        (a, b) =>
+          a.device.localeCompare(b.device) ||
+          a.sourceId - b.sourceId ||
+          a.paramId - b.paramId ||
+          a.index1 - b.index1 ||
+          a.index2 - b.index2
+      ),
+  };
+}
+
+/**
+ * Reconstructs calibration histories from rows (sorted by date first).
+ */
+export function trackCalibration(
+  tableRows: LogRowWithDateAndMessageIDAndType[],
+  options: CalibrationTrackerOptions = {}
+): CalibrationParameter[] {
+  const tracker = createCalibrationTracker(options);
+  const sorted = [...tableRows].sort((a, b) => Number(a.date) - Number(b.date));
+  for (const row of sorted) tracker.add(row);
+  return tracker.parameters();
+}
+
+/**
+ * Finds calibration changes made after a fill ended and before the next one started (or after
+ * the last fill). First values and changes during a fill are not reported.
+ */
+export function findCalibrationChangesBetweenFills(
+  parameters: CalibrationParameter[],
+  sessions: FillSession[]
+): CalibrationChangeBetweenFills[] {
+  const fills = [...sessions].sort((a, b) => a.start - b.start);
+  const changes: CalibrationChangeBetweenFills[] = [];
+
+  for (const parameter of parameters) {
+    for (const change of parameter.history) {
+      if (change.previous === null) continue;
+      const nextIndex = fills.findIndex(
+        (fill) => fill.start > change.timestamp
+      );
+      const previous = fills[(nextIndex === -1 ? fills.length : nextIndex) - 1];
+      if (!previous || previous.end > change.timestamp) continue;
+      changes.push({
+        parameter,
+        change,
+        previousRefillId: previous.refillId,
+        nextRefillId:
+          nextIndex === -1 ? null : fills[nextIndex]?.refillId ?? null,
+      });
+    }
+  }
+  return changes.sort((a, b) => a.change.timestamp - b.change.timestamp);
+}
+
+/* ============================
+ * Report
+ * ============================ */
+
+function describeParameter(parameter: CalibrationParameter): string {
+  const index =
+    parameter.index1 || parameter.index2
+      ? `[${parameter.index1},${parameter.index2}]`
+      : "";
+  const source = parameter.sourceId.toString(16).padStart(4, "0");
+  return `${parameter.device} ${source} param ${parameter.paramId}${index}${
+    parameter.name ? ` ${parameter.name}` : ""
+  }`;
+}
+
+function formatValue(
+  value: number | string,
+  parameter: CalibrationParameter
+): string {
+  return parameter.unit ? `${value} ${parameter.unit}` : String(value);
+}
+
+/**
+ * Formats calibration histories and between-fill changes as a plain-text report.
+ */
+export function formatCalibrationReport(
+  parameters: CalibrationParameter[],
+  changesBetweenFills: CalibrationChangeBetweenFills[] = []
+): string {
+  const blocks = parameters.map((parameter) =>
+    [
+      `${describeParameter(parameter)} (${parameter.varType}): ${formatValue(
+        parameter.current,
+        parameter
+      )}`,
+      ...parameter.history.map(
+        (change) =>
+          `  ${new Date(change.timestamp).toISOString()} ${formatValue(
+            change.value,
+            parameter
+          )}`
+      ),
+    ].join("\n")
+  );
+  if (changesBetweenFills.length > 0) {
+    blocks.push(
+      [
+        "Changed between fills:",
+        ...changesBetweenFills.map(
+          ({ parameter, change, previousRefillId, nextRefillId }) =>
+            `  ${describeParameter(parameter)}: ${formatValue(
+              change.previous ?? "?",
+              parameter
+            )} -> ${formatValue(
+              change.value,
+              parameter
+            )} after refill ${previousRefillId}${
+              nextRefillId === null ? "" : `, before refill ${nextRefillId}`
+            }`
+        ),
+      ].join("\n")
+    );
+  }
+  return blocks.join("\n\n");
+}
+
+/* ============================
+ * CLI
+ * `bun run calibration.ts [rows.jsonl] [--names names.yaml]` reports calibration histories and
+ * the changes made between fills in a JSONEachRow dump (in time order), or in the bundled
+ * sample data.
+ * ============================ */
+
+if (import.meta.main) {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    allowPositionals: true,
+    options: { names: { type: "string" } },
+  });
+  const names = values.names
+    ? await loadCalibrationNamesFile(values.names)
+    : undefined;
+  const calibration = createCalibrationTracker({ names });
+  const fills = createFillSessionTracker();
+  const add = (row: LogRowWithDateAndMessageIDAndType) => {
+    calibration.add(row);
+    decodeUDPLogRow(row, fills.add);
+  };
+
+  const [inputPath] = positionals;
+  if (inputPath) {
+    for await (const row of readJSONEachRow(Bun.file(inputPath).stream())) {
+      add(row);
+    }
+  } else {
+    [...rawLogData]
+      .sort((a, b) => Number(a.date) - Number(b.date))
+      .forEach(add);
+  }
+
+  const parameters = calibration.parameters();
+  console.log(
+    parameters.length > 0
+      ? formatCalibrationReport(
+          parameters,
+          findCalibrationChangesBetweenFills(parameters, fills.finish())
+        )
+      : "No calibration parameters found."
+  );
+}
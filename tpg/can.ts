@@ -0,0 +1,177 @@
+import { z } from "zod";
+import { canConfig } from "./can_config";
+import type {
+  DecodedPoint,
+  DecodedPointSink,
+  LogRowWithDateAndMessageIDAndType,
+} from "./index";
+
+/* ============================
+ * Schemas & Types
+ * ============================ */
+
+// A signal packed into a CAN frame's data bytes (DBC semantics)
+const CanSignalSchema = z.object({
+  name: z.string(),
+  // Intel signals: position of the LSB. Motorola signals: position of the MSB (DBC numbering).
+  startBit: z.number(),
+  length: z.number(),
+  byteOrder: z.enum(["little_endian", "big_endian"]),
+  signed: z.boolean(),
+  factor: z.number(),
+  offset: z.number(),
+  unit: z.string(),
+
+  // Optional properties
+  enum: z.record(z.string(), z.string()).optional(),
+  // Marks the signal that selects which multiplexed signals are present
+  multiplexor: z.boolean().optional(),
+  // Only present when the multiplexor's raw value equals this
+  multiplexValue: z.number().optional(),
+});
+
+// Schema for a CAN message entry
+const CanMessageSchema = z.object({
+  name: z.string(),
+  length: z.number(),
+  signals: z.array(CanSignalSchema),
+
+  // Optional properties
+  sender: z.string().optional(),
+});
+
+// Messages on one bus, keyed by CAN ID in decimal
+const CanBusConfigSchema = z.record(z.string(), CanMessageSchema);
+
+// Complete CAN config schema, one entry per logged bus
+export const CanConfigSchema = z.object({
+  sb_can0: CanBusConfigSchema,
+  sb_can1: CanBusConfigSchema,
+});
+
+export type CanSignal = z.infer<typeof CanSignalSchema>;
+export type CanMessage = z.infer<typeof CanMessageSchema>;
+export type CanBusConfig = z.infer<typeof CanBusConfigSchema>;
+export type CanConfig = z.infer<typeof CanConfigSchema>;
+export type CanBus = keyof CanConfig;
+
+/* ============================
+ * Helpers
+ * ============================ */
+
+/**
+ * Returns true for row types that carry CAN frames rather than UDP datagrams.
+ */
+export function isCanRowType(
+  type: LogRowWithDateAndMessageIDAndType["type"]
+): type is CanBus {
+  return type === "sb_can0" || type === "sb_can1";
+}
+
+/**
+ * Returns the CAN ID as a lower-case hex string, padded to 3 digits (standard) or 8 (extended).
+ */
+function getCanIdHex(canId: number): string {
+  return canId
+    .toString(16)
+    .padStart(canId > 0x7ff ? 8 : 3, "0")
+    .toLowerCase();
+}
+
+/**
+ * Extracts a signal's raw (unscaled) value from the frame data.
+ * Returns null when the signal doesn't fit in the received bytes.
+ */
+export function getRawSignalValue(
+  data: number[],
+  signal: Pick<CanSignal, "startBit" | "length" | "byteOrder" | "signed">
+): bigint | null {
+  const { startBit, length, byteOrder, signed } = signal;
+  if (length <= 0) return null;
+
+  let raw = 0n;
+  if (byteOrder === "little_endian") {
+    // Intel: bits count upwards from the LSB at startBit
+    if (startBit + length > data.length * 8) return null;
+    for (let i = length - 1; i >= 0; i--) {
+      const position = startBit + i;
+      const bit = ((data[position >> 3] ?? 0) >> (position & 7)) & 1;
+      raw = (raw << 1n) | BigInt(bit);
+    }
+  } else {
+    // Motorola: walk from the MSB at startBit in DBC "sawtooth" order
+    let position = startBit;
+    for (let i = 0; i < length; i++) {
+      if (position < 0 || position >> 3 >= data.length) return null;
+      const bit = ((data[position >> 3] ?? 0) >> (position & 7)) & 1;
+      raw = (raw << 1n) | BigInt(bit);
+      position = (position & 7) === 0 ? position + 15 : position - 1;
+    }
+  }
+
+  return signed ? BigInt.asIntN(length, raw) : raw;
+}
+
+/* ============================
+ * Decoder
+ * ============================ */
+
+/**
+ * Decodes a single CAN log row (`sb_can0` / `sb_can1`) keyed on `message_id`,
+ * emitting one point per configured signal (multiplexed signals only when selected).
+ * Unknown IDs emit nothing.
+ */
+export function decodeCANLogRow(
+  row: LogRowWithDateAndMessageIDAndType,
+  emit: DecodedPointSink,
+  config: CanConfig = canConfig
+): void {
+  if (!isCanRowType(row.type) || row.message_id === null) return;
+  if (!Array.isArray(row.log)) return;
+
+  const bus = row.type;
+  const message = config[bus][String(row.message_id)];
+  if (!message) return;
+
+  const canIdHex = getCanIdHex(row.message_id);
+  const timestamp = Number(row.date);
+
+  const multiplexorSignal = message.signals.find(
+    (signal) => signal.multiplexor
+  );
+  const multiplexorRaw = multiplexorSignal
+    ? getRawSignalValue(row.log, multiplexorSignal)
+    : null;
+
+  for (const signal of message.signals) {
+    if (
+      signal.multiplexValue !== undefined &&
+      (multiplexorRaw === null ||
+        BigInt(signal.multiplexValue) !== multiplexorRaw)
+    ) {
+      continue;
+    }
+
+    const raw = getRawSignalValue(row.log, signal);
+    if (raw === null) continue;
+
+    const value = Number(raw) * signal.factor + signal.offset;
+    const point: DecodedPoint = {
+      id: `${bus}_${canIdHex}_${signal.name}`,
+      label: signal.name,
+      unit: signal.unit,
+      messageId: canIdHex,
+      isEnum: !!signal.enum,
+      sender: bus,
+      timestamp,
+      value,
+    };
+    if (signal.length > 53) {
+      point.exactValue = raw.toString();
+    }
+    if (signal.enum) {
+      point.enumLabel = signal.enum[raw.toString()] ?? null;
+    }
+    emit(point);
+  }
+}
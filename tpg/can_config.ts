@@ -0,0 +1,10 @@
+import type { CanConfig } from "./can";
+
+/**
+ * CAN signal definitions per swarmbot bus, keyed by CAN ID in decimal.
+ * Rows with no matching entry are skipped by the decoder.
+ */
+export const canConfig: CanConfig = {
+  sb_can0: {},
+  sb_can1: {},
+};
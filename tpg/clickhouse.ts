@@ -0,0 +1,105 @@
+import type { LogRowWithDateAndMessageIDAndType } from "./index";
+import { readJSONEachRow } from "./stream";
+
+/* ============================
+ * Types
+ * ============================ */
+
+/**
+ * Which logs to fetch: one swarmbot over a time range.
+ */
+export interface LogRowQuery {
+  swarmbotId: string; // e.g. "sb-0130"
+  from: number; // epoch ms, inclusive
+  to: number; // epoch ms, exclusive
+}
+
+/**
+ * Connection settings; every field defaults to the environment variable named beside it.
+ */
+export interface ClickHouseOptions {
+  url?: string; // CLICKHOUSE_HOST
+  username?: string; // CLICKHOUSE_USER
+  password?: string; // CLICKHOUSE_PASSWORD
+  database?: string; // CLICKHOUSE_DATABASE
+  table?: string; // TPG_LOG_TABLE
+}
+
+/**
+ * Fetches log rows for a query.
+ */
+export type LogRowSource = (
+  query: LogRowQuery
+) => AsyncIterable<LogRowWithDateAndMessageIDAndType>;
+
+/* ============================
+ * Constants
+ * ============================ */
+
+// The table is expected to hold the row shape tpg decodes, keyed by swarmbotID like chp's tables
+const LOG_ROWS_QUERY = `
+  SELECT
+    toString(toUnixTimestamp64Milli(date)) AS date,
+    log,
+    message_id,
+    type
+  FROM {table:Identifier}
+  WHERE
+    swarmbotID = {swarmbotId:String}
+    AND date >= fromUnixTimestamp64Milli({from:Int64})
+    AND date < fromUnixTimestamp64Milli({to:Int64})
+  ORDER BY date
+  FORMAT JSONEachRow
+`;
+
+/* ============================
+ * Source
+ * ============================ */
+
+/**
+ * Creates a row source that queries ClickHouse over HTTP and streams the JSONEachRow result,
+ * so large time ranges are decoded without buffering the whole response.
+ */
+export function createClickHouseRowSource(
+  options: ClickHouseOptions = {}
+): LogRowSource {
+  const {
+    url = process.env.CLICKHOUSE_HOST,
+    username = process.env.CLICKHOUSE_USER,
+    password = process.env.CLICKHOUSE_PASSWORD,
+    database = process.env.CLICKHOUSE_DATABASE,
+    table = process.env.TPG_LOG_TABLE,
+  } = options;
+
+  return async function* fetchLogRows(query) {
+    if (!url || !table) {
+      throw new Error(
+        "ClickHouse row source needs CLICKHOUSE_HOST and TPG_LOG_TABLE (or the url and table options)."
+      );
+    }
+
+    const endpoint = new URL(url);
+    if (database) endpoint.searchParams.set("database", database);
+    endpoint.searchParams.set("param_table", table);
+    endpoint.searchParams.set("param_swarmbotId", query.swarmbotId);
+    endpoint.searchParams.set("param_from", String(query.from));
+    endpoint.searchParams.set("param_to", String(query.to));
+
+    const headers: Record<string, string> = {};
+    if (username) headers["X-ClickHouse-User"] = username;
+    if (password) headers["X-ClickHouse-Key"] = password;
+
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers,
+      body: LOG_ROWS_QUERY,
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(
+        `ClickHouse query failed (${response.status}): ${await response.text()}`
+      );
+    }
+
+    yield* readJSONEachRow(response.body);
+  };
+}
@@ -0,0 +1,106 @@
+import type { DecodedPoint } from "./index";
+
+/* ============================
+ * Types
+ * ============================ */
+
+export interface ChangeOnlyOptions {
+  /**
+   * Minimum change worth a new point, by unit. Non-enum points of these units are only
+   * kept once they move more than this from the last kept value. Defaults to DEFAULT_DEADBANDS.
+   */
+  deadbands?: Record<string, number>;
+  /** A point is kept at least this often per series, even when unchanged. Defaults to 60; 0 disables. */
+  heartbeatSeconds?: number;
+}
+
+/**
+ * Drops points that repeat the last kept value of their series (see DecodeOptions.changeFilter).
+ */
+export interface ChangeOnlyFilter {
+  /** Returns true when the point should be kept, and remembers it as the series' last value. */
+  accept: (point: DecodedPoint) => boolean;
+  /** Forgets every series, e.g. before decoding an unrelated log. */
+  reset: () => void;
+}
+
+/**
+ * The last point kept for one series.
+ */
+type LastKept = {
+  timestamp: number;
+  value: number;
+  exactValue?: string;
+};
+
+/* ============================
+ * Constants
+ * ============================ */
+
+/**
+ * Deadbands for the analog units in UdpUnit, roughly one step of sensor noise.
+ */
+export const DEFAULT_DEADBANDS: Record<string, number> = {
+  mV: 10,
+  uA: 10,
+  V: 0.01,
+  Bar: 0.01,
+  "L/s": 0.01,
+  RPM: 5,
+};
+
+const DEFAULT_HEARTBEAT_SECONDS = 60;
+
+/* ============================
+ * Filter
+ * ============================ */
+
+/**
+ * Creates a filter that keeps a point only when its value changed (beyond the unit's
+ * deadband for analog fields), or when the series hasn't had a point for a heartbeat.
+ * Enum and bit-flag fields always compare exactly. The first point of every series is kept.
+ */
+export function createChangeOnlyFilter(
+  options: ChangeOnlyOptions = {}
+): ChangeOnlyFilter {
+  const {
+    deadbands = DEFAULT_DEADBANDS,
+    heartbeatSeconds = DEFAULT_HEARTBEAT_SECONDS,
+  } = options;
+  const heartbeatMs = heartbeatSeconds > 0 ? heartbeatSeconds * 1000 : Infinity;
+  const lastKeptById = new Map<string, LastKept>();
+
+  const hasChanged = (point: DecodedPoint, last: LastKept): boolean => {
+    if (point.exactValue !== undefined || last.exactValue !== undefined) {
+      return point.exactValue !== last.exactValue;
+    }
+    const deadband = point.isEnum ? 0 : deadbands[point.unit] ?? 0;
+    return deadband > 0
+      ? Math.abs(point.value - last.value) > deadband
+      : point.value !== last.value;
+  };
+
+  return {
+    accept(point: DecodedPoint): boolean {
+      const last = lastKeptById.get(point.id);
+      if (
+        last &&
+        point.timestamp - last.timestamp < heartbeatMs &&
+        !hasChanged(point, last)
+      ) {
+        return false;
+      }
+
+      lastKeptById.set(point.id, {
+        timestamp: point.timestamp,
+        value: point.value,
+        exactValue: point.exactValue,
+      });
+      return true;
+    },
+
+    reset(): void {
+      lastKeptById.clear();
+    },
+  };
+}
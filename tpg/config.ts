@@ -0,0 +1,181 @@
+import { watch } from "fs";
+import { basename, dirname, extname } from "path";
+import { parse as parseYAML } from "yaml";
+import type { z } from "zod";
+import { CanConfigSchema, type CanConfig } from "./can";
+import { setUdpConfig, UdpConfigSchema, type UdpConfig } from "./index";
+
+/* ============================
+ * Types
+ * ============================ */
+
+export interface ConfigIssue {
+  path: string; // e.g. `"Dock Messages".Prefixes."7".Fields[4].type`
+  message: string;
+}
+
+export interface WatchUdpConfigOptions {
+  /** Called after a changed file validated and became the active config. */
+  onReload?: (config: UdpConfig) => void;
+  /** Called when a (re)load fails; the previous config stays active. Defaults to console.error. */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Thrown when a config file doesn't match its schema. Carries every issue with its path.
+ */
+export class ConfigValidationError extends Error {
+  readonly source: string;
+  readonly issues: ConfigIssue[];
+
+  constructor(source: string, issues: ConfigIssue[]) {
+    super(
+      `Invalid config (${source}):\n` +
+        issues.map((issue) => `  ${issue.path}: ${issue.message}`).join("\n")
+    );
+    this.name = "ConfigValidationError";
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+/* ============================
+ * Constants
+ * ============================ */
+
+/**
+ * Delay before reloading a watched file, so editors that write in several steps
+ * trigger one reload instead of several partial ones.
+ */
+const WATCH_DEBOUNCE_MS = 100;
+
+/* ============================
+ * Helpers
+ * ============================ */
+
+/**
+ * Formats a config path (Zod issue path or lint location), quoting keys that aren't plain identifiers.
+ */
+export function formatIssuePath(path: PropertyKey[]): string {
+  if (path.length === 0) return "(root)";
+  return path
+    .map((key, index) => {
+      if (typeof key === "number") return `[${key}]`;
+      const name = String(key);
+      const quoted = /^[A-Za-z_$][\w$]*$/.test(name) ? name : `"${name}"`;
+      return index === 0 ? quoted : `.${quoted}`;
+    })
+    .join("");
+}
+
+function toConfigIssues(error: z.ZodError): ConfigIssue[] {
+  return error.issues.map((issue) => ({
+    path: formatIssuePath(issue.path),
+    message: issue.message,
+  }));
+}
+
+/**
+ * Parses config file text as JSON or YAML based on the file extension.
+ */
+function parseConfigText(text: string, path: string): unknown {
+  const extension = extname(path).toLowerCase();
+  if (extension === ".yaml" || extension === ".yml") {
+    return parseYAML(text);
+  }
+  if (extension === ".json") {
+    return JSON.parse(text);
+  }
+  throw new Error(
+    `Unsupported config file type '${extension}' (${path}); expected .json, .yaml or .yml.`
+  );
+}
+
+/* ============================
+ * Loading
+ * ============================ */
+
+/**
+ * Validates arbitrary data against a Zod schema.
+ * @throws ConfigValidationError listing every issue and its path
+ */
+export function validateConfig<T>(
+  schema: z.ZodType<T>,
+  data: unknown,
+  source: string
+): T {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new ConfigValidationError(source, toConfigIssues(result.error));
+  }
+  return result.data;
+}
+
+/**
+ * Validates arbitrary data against UdpConfigSchema.
+ * @throws ConfigValidationError listing every issue and its path
+ */
+export function parseUdpConfig(data: unknown, source = "config"): UdpConfig {
+  return validateConfig(UdpConfigSchema, data, source);
+}
+
+/**
+ * Validates arbitrary data against CanConfigSchema.
+ * @throws ConfigValidationError listing every issue and its path
+ */
+export function parseCanConfig(
+  data: unknown,
+  source = "CAN config"
+): CanConfig {
+  return validateConfig(CanConfigSchema, data, source);
+}
+
+/**
+ * Reads a JSON or YAML file (by extension) without validating it.
+ */
+export async function readConfigFile(path: string): Promise<unknown> {
+  return parseConfigText(await Bun.file(path).text(), path);
+}
+
+/**
+ * Reads and validates a UDP config from a JSON or YAML file.
+ */
+export async function loadUdpConfigFile(path: string): Promise<UdpConfig> {
+  return parseUdpConfig(await readConfigFile(path), path);
+}
+
+/**
+ * Loads a UDP config file, makes it the decoder's active config, and reloads it whenever
+ * the file changes. Invalid versions are reported and the last good config stays active.
+ * The file's directory is watched, so editors that save by renaming a temp file over it keep
+ * being followed. Returns a function that stops watching.
+ */
+export async function watchUdpConfigFile(
+  path: string,
+  options: WatchUdpConfigOptions = {}
+): Promise<() => void> {
+  const { onReload, onError = (error) => console.error(error) } = options;
+
+  setUdpConfig(await loadUdpConfigFile(path));
+
+  const fileName = basename(path);
+  let reloadTimer: ReturnType<typeof setTimeout> | undefined;
+  const watcher = watch(dirname(path), (_event, changed) => {
+    if (changed && changed !== fileName) return;
+    clearTimeout(reloadTimer);
+    reloadTimer = setTimeout(async () => {
+      try {
+        const config = await loadUdpConfigFile(path);
+        setUdpConfig(config);
+        onReload?.(config);
+      } catch (error) {
+        onError(error);
+      }
+    }, WATCH_DEBOUNCE_MS);
+  });
+
+  return () => {
+    clearTimeout(reloadTimer);
+    watcher.close();
+  };
+}
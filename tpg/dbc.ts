@@ -0,0 +1,195 @@
+import type {
+  CanBus,
+  CanBusConfig,
+  CanConfig,
+  CanMessage,
+  CanSignal,
+} from "./can";
+import { canConfig } from "./can_config";
+import { parseCanConfig } from "./config";
+
+/* ============================
+ * Constants
+ * ============================ */
+
+/**
+ * DBC sets bit 31 of the message ID to mark 29-bit extended frames.
+ */
+const DBC_EXTENDED_ID_FLAG = 0x80000000;
+const CAN_EXTENDED_ID_MASK = 0x1fffffff;
+
+/**
+ * Transmitter name DBC files use when a message has no sending node.
+ */
+const DBC_NO_NODE = "Vector__XXX";
+
+// BO_ <id> <name>: <dlc> <transmitter>
+const MESSAGE_PATTERN = /^BO_\s+(\d+)\s+(\w+)\s*:\s*(\d+)\s+(\w+)/;
+
+// SG_ <name> [M|m<n>] : <start>|<length>@<order><sign> (<factor>,<offset>) [<min>|<max>] "<unit>" <receivers>
+const SIGNAL_PATTERN =
+  /^SG_\s+(\w+)\s*(M|m\d+M?)?\s*:\s*(\d+)\|(\d+)@([01])([+-])\s*\(\s*([^,\s]+)\s*,\s*([^)\s]+)\s*\)\s*\[[^\]]*\]\s*"([^"]*)"/;
+
+// VAL_ <id> <signal> <value> "<text>" ... ;
+const VALUE_TABLE_PATTERN = /^VAL_\s+(\d+)\s+(\w+)\s+([\s\S]*);$/;
+const VALUE_ENTRY_PATTERN = /(-?\d+)\s+"([^"]*)"/g;
+
+/* ============================
+ * Helpers
+ * ============================ */
+
+/**
+ * Converts a DBC message ID to the CAN ID as logged, dropping the extended-frame flag.
+ */
+function toCanId(dbcId: number): number {
+  return dbcId >= DBC_EXTENDED_ID_FLAG ? dbcId & CAN_EXTENDED_ID_MASK : dbcId;
+}
+
+/**
+ * Splits DBC text into statements: one per line, except `VAL_` entries,
+ * which may wrap over several lines until their terminating `;`.
+ */
+function splitStatements(text: string): { statement: string; line: number }[] {
+  const statements: { statement: string; line: number }[] = [];
+  const lines = text.split(/\r?\n/);
+  let pending: { statement: string; line: number } | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = (lines[i] ?? "").trim();
+    if (pending) {
+      pending.statement += ` ${trimmed}`;
+    } else if (trimmed.startsWith("VAL_ ")) {
+      pending = { statement: trimmed, line: i + 1 };
+    } else {
+      if (trimmed) statements.push({ statement: trimmed, line: i + 1 });
+      continue;
+    }
+
+    if (pending.statement.endsWith(";")) {
+      statements.push(pending);
+      pending = null;
+    }
+  }
+
+  if (pending) {
+    throw new Error(`DBC line ${pending.line}: unterminated VAL_ statement.`);
+  }
+  return statements;
+}
+
+/**
+ * Parses one `SG_` statement into a CAN signal config entry.
+ */
+function parseSignal(statement: string, line: number): CanSignal {
+  const match = SIGNAL_PATTERN.exec(statement);
+  if (!match) {
+    throw new Error(`DBC line ${line}: malformed SG_ statement.`);
+  }
+  const [, name = "", mux, start, length, order, sign, factor, offset, unit] =
+    match;
+
+  const signal: CanSignal = {
+    name,
+    startBit: Number(start),
+    length: Number(length),
+    byteOrder: order === "1" ? "little_endian" : "big_endian",
+    signed: sign === "-",
+    factor: Number(factor),
+    offset: Number(offset),
+    unit: unit ?? "",
+  };
+  if (Number.isNaN(signal.factor) || Number.isNaN(signal.offset)) {
+    throw new Error(
+      `DBC line ${line}: invalid factor/offset for signal '${name}'.`
+    );
+  }
+  if (mux === "M") {
+    signal.multiplexor = true;
+  } else if (mux) {
+    // "m3" (or "m3M" for extended multiplexing): selected when the multiplexor is 3
+    signal.multiplexValue = Number.parseInt(mux.slice(1), 10);
+  }
+  return signal;
+}
+
+/* ============================
+ * Parser
+ * ============================ */
+
+/**
+ * Parses a Vector DBC file into CAN config entries for one bus, keyed by CAN ID in decimal.
+ * Covers messages, signals (byte order, sign, factor/offset, unit, multiplexing) and `VAL_` value tables.
+ * Other DBC sections (nodes, comments, attributes) are ignored.
+ */
+export function parseDBC(text: string): CanBusConfig {
+  const config: CanBusConfig = {};
+  let currentMessage: CanMessage | null = null;
+
+  for (const { statement, line } of splitStatements(text)) {
+    if (statement.startsWith("BO_ ")) {
+      const match = MESSAGE_PATTERN.exec(statement);
+      if (!match) {
+        throw new Error(`DBC line ${line}: malformed BO_ statement.`);
+      }
+      const [, id, name = "", dlc, transmitter] = match;
+      currentMessage = { name, length: Number(dlc), signals: [] };
+      if (transmitter && transmitter !== DBC_NO_NODE) {
+        currentMessage.sender = transmitter;
+      }
+      config[String(toCanId(Number(id)))] = currentMessage;
+    } else if (statement.startsWith("SG_ ")) {
+      if (!currentMessage) {
+        throw new Error(`DBC line ${line}: SG_ statement outside of a BO_.`);
+      }
+      currentMessage.signals.push(parseSignal(statement, line));
+    } else if (statement.startsWith("VAL_ ")) {
+      const match = VALUE_TABLE_PATTERN.exec(statement);
+      if (!match) {
+        throw new Error(`DBC line ${line}: malformed VAL_ statement.`);
+      }
+      const [, id, signalName, entries = ""] = match;
+      const signal = config[String(toCanId(Number(id)))]?.signals.find(
+        (candidate) => candidate.name === signalName
+      );
+      if (!signal) continue; // value table for an unknown signal
+
+      signal.enum = {};
+      for (const [, value = "", text = ""] of entries.matchAll(
+        VALUE_ENTRY_PATTERN
+      )) {
+        signal.enum[value] = text;
+      }
+    } else {
+      // Any other top-level statement ends the current message's signal list
+      currentMessage = null;
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Reads and parses a DBC file from disk.
+ */
+export async function loadDBCFile(path: string): Promise<CanBusConfig> {
+  return parseDBC(await Bun.file(path).text());
+}
+
+/**
+ * Builds a CAN config for DecodeOptions.canConfig from one DBC file per bus. Buses without a
+ * file keep the built-in config.
+ * @throws ConfigValidationError when a parsed file doesn't match CanConfigSchema
+ */
+export async function loadDBCConfig(
+  paths: Partial<Record<CanBus, string>>
+): Promise<CanConfig> {
+  const config: CanConfig = { ...canConfig };
+  const loaded: string[] = [];
+  for (const bus of Object.keys(config) as CanBus[]) {
+    const path = paths[bus];
+    if (!path) continue;
+    config[bus] = await loadDBCFile(path);
+    loaded.push(path);
+  }
+  return parseCanConfig(config, loaded.join(", ") || "CAN config");
+}
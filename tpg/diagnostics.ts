@@ -0,0 +1,163 @@
+/* ============================
+ * Types
+ * ============================ */
+
+export type DiagnosticLevel = "debug" | "info" | "warn" | "error";
+
+/** Minimum level a collector keeps; "silent" keeps nothing. */
+export type LogLevel = DiagnosticLevel | "silent";
+
+export type DiagnosticReason =
+  | "frame_length" // frame shorter than the header or longer than MAX_UDP_MESSAGE_LENGTH
+  | "out_of_bounds" // field bytes lie past the end of the frame
+  | "empty_bytes" // field has no bytes configured
+  | "invalid_byte_offset" // bit field byte list contains a hole
+  | "unresolved_dependent_label" // dependency selector unreadable or label not "A | B"
+  | "dependent_label_resolved"
+  | "dependent_field_absent" // no variant of a conditional field matches its selector
+  | "multiplier_applied"
+  | "field_skipped" // field has neither use_bits nor a numeric type
+  | "field_error"; // unexpected exception while decoding a field
+
+/**
+ * One thing the decoder noticed about a single frame/field.
+ */
+export interface DiagnosticEvent {
+  level: DiagnosticLevel;
+  reason: DiagnosticReason;
+  sender: string;
+  messageId: string; // hex, e.g. "0703"; empty when the header is unreadable
+  field?: string; // configured label
+  timestamp: number;
+  messageLength: number;
+  offsets?: number[]; // absolute byte offsets involved
+  detail: string;
+}
+
+/**
+ * Occurrences of one reason for one message/field, with the first few samples.
+ */
+export interface DiagnosticEntry {
+  level: DiagnosticLevel;
+  reason: DiagnosticReason;
+  sender: string;
+  messageId: string;
+  field?: string;
+  count: number;
+  firstTimestamp: number;
+  lastTimestamp: number;
+  detail: string; // from the first occurrence
+  samples: { timestamp: number; messageLength: number; offsets?: number[] }[];
+}
+
+export interface Diagnostics {
+  /** True when events at `level` are kept; lets callers skip building detail strings. */
+  enabled: (level: DiagnosticLevel) => boolean;
+  report: (event: DiagnosticEvent) => void;
+  /** Collected entries, most frequent first. */
+  entries: () => DiagnosticEntry[];
+  clear: () => void;
+}
+
+export interface DiagnosticsOptions {
+  /** Minimum level to keep. Defaults to "warn". */
+  level?: LogLevel;
+  /** Samples kept per entry. Defaults to 5. */
+  maxSamples?: number;
+  /** Called for every kept event, e.g. to forward to a logger. */
+  onEvent?: (event: DiagnosticEvent) => void;
+}
+
+/* ============================
+ * Constants
+ * ============================ */
+
+const LEVEL_RANKS: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+};
+
+const DEFAULT_MAX_SAMPLES = 5;
+
+/* ============================
+ * Collector
+ * ============================ */
+
+/**
+ * Creates a collector that aggregates decoder diagnostics per message/field and reason,
+ * so a bad firmware build yields one entry with a count instead of a line per frame.
+ */
+export function createDiagnostics(
+  options: DiagnosticsOptions = {}
+): Diagnostics {
+  const { level = "warn", maxSamples = DEFAULT_MAX_SAMPLES, onEvent } = options;
+  const minRank = LEVEL_RANKS[level];
+  const byKey = new Map<string, DiagnosticEntry>();
+
+  const enabled = (eventLevel: DiagnosticLevel) =>
+    LEVEL_RANKS[eventLevel] >= minRank;
+
+  return {
+    enabled,
+
+    report(event: DiagnosticEvent): void {
+      if (!enabled(event.level)) return;
+      onEvent?.(event);
+
+      const key = `${event.sender}|${event.messageId}|${event.field ?? ""}|${
+        event.reason
+      }`;
+      let entry = byKey.get(key);
+      if (!entry) {
+        entry = {
+          level: event.level,
+          reason: event.reason,
+          sender: event.sender,
+          messageId: event.messageId,
+          field: event.field,
+          count: 0,
+          firstTimestamp: event.timestamp,
+          lastTimestamp: event.timestamp,
+          detail: event.detail,
+          samples: [],
+        };
+        byKey.set(key, entry);
+      }
+
+      entry.count++;
+      entry.firstTimestamp = Math.min(entry.firstTimestamp, event.timestamp);
+      entry.lastTimestamp = Math.max(entry.lastTimestamp, event.timestamp);
+      if (entry.samples.length < maxSamples) {
+        entry.samples.push({
+          timestamp: event.timestamp,
+          messageLength: event.messageLength,
+          offsets: event.offsets,
+        });
+      }
+    },
+
+    entries: () => Array.from(byKey.values()).sort((a, b) => b.count - a.count),
+
+    clear(): void {
+      byKey.clear();
+    },
+  };
+}
+
+/**
+ * Formats entries one per line, e.g.
+ * `warn  dock 0703 'Voltage' out_of_bounds x120: Field 'Voltage' bytes [...] ...`.
+ */
+export function formatDiagnostics(entries: DiagnosticEntry[]): string {
+  return entries
+    .map((entry) => {
+      const field = entry.field !== undefined ? ` '${entry.field}'` : "";
+      return `${entry.level.padEnd(5)} ${entry.sender} ${
+        entry.messageId || "----"
+      }${field} ${entry.reason} x${entry.count}: ${entry.detail}`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,323 @@
+import { parseArgs } from "util";
+import { z } from "zod";
+import { readConfigFile, validateConfig } from "./config";
+import { rawLogData } from "./data";
+import {
+  decodeUDPLogRows,
+  type DecodedPoint,
+  type DecodedPointSink,
+} from "./index";
+import { seriesToPoints, type ParsedLogSeries } from "./series";
+import { decodeUDPLogStream, readJSONEachRow } from "./stream";
+
+/* ============================
+ * Schemas & Types
+ * ============================ */
+
+// Text for error categories and codes; codes are listed per category, "*" matching any category
+const ErrorCodeTableSchema = z.object({
+  categories: z.record(z.string(), z.string()).default({}),
+  codes: z.record(z.string(), z.record(z.string(), z.string())).default({}),
+});
+
+export type ErrorCodeTable = z.infer<typeof ErrorCodeTableSchema>;
+
+/**
+ * One dock error from the frame that made it active until the frame that cleared it.
+ */
+export interface DockErrorEpisode {
+  category: number;
+  code: number;
+  categoryText: string | null; // from the code table
+  codeText: string | null; // from the code table
+  start: number; // epoch ms
+  /** First frame reporting the error inactive; null when still active at the end of the log */
+  end: number | null;
+  durationMs: number | null;
+  lastSeen: number; // last frame reporting it active
+  payload: string | null; // 64-bit Payload of the activating frame, as a decimal string
+}
+
+export interface DockErrorTimelineOptions {
+  codeTable?: ErrorCodeTable;
+}
+
+export interface DockErrorTimeline {
+  /** Feeds one decoded point; points must arrive in time order. Other messages are ignored. */
+  add: DecodedPointSink;
+  /** Returns every episode ordered by start, still-active ones with a null end. */
+  finish: () => DockErrorEpisode[];
+}
+
+/**
+ * A downtime event from chp's `metrics` table, spanning its rows for one downtimeEventID.
+ */
+export interface DowntimeEvent {
+  downtimeEventID: string;
+  swarmbotID: string;
+  start: number; // epoch ms
+  end: number; // epoch ms
+}
+
+/**
+ * An episode flattened for joining with chp's downtime events on swarmbotID and time.
+ * Durations are in hours, as in chp.
+ */
+export interface DockErrorRecord {
+  swarmbotID: string;
+  start: string; // ISO 8601
+  end: string | null; // ISO 8601
+  durationHr: number | null;
+  errorCategory: number;
+  errorCode: number;
+  errorText: string; // "Category / code text", falling back to the numbers
+  payload: string | null;
+  downtimeEventIDs: string[]; // overlapping downtime events, when given
+}
+
+/* ============================
+ * Constants
+ * ============================ */
+
+const DOCK_ERRORS_MESSAGE_ID = "0004";
+
+const ANY_CATEGORY = "*";
+
+// Dock Errors "Active"
+const ERROR_ACTIVE = 0;
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/* ============================
+ * Code table
+ * ============================ */
+
+/**
+ * Validates a code table.
+ * @throws ConfigValidationError listing every issue and its path
+ */
+export function parseErrorCodeTable(
+  data: unknown,
+  source = "error code table"
+): ErrorCodeTable {
+  return validateConfig(ErrorCodeTableSchema, data, source);
+}
+
+/**
+ * Reads and validates a code table from a JSON or YAML file.
+ */
+export async function loadErrorCodeTableFile(
+  path: string
+): Promise<ErrorCodeTable> {
+  return parseErrorCodeTable(await readConfigFile(path), path);
+}
+
+/**
+ * Looks up the text for a category and code, preferring the category's own codes over "*".
+ */
+export function describeDockError(
+  table: ErrorCodeTable,
+  category: number,
+  code: number
+): { categoryText: string | null; codeText: string | null } {
+  return {
+    categoryText: table.categories[category] ?? null,
+    codeText:
+      table.codes[category]?.[code] ??
+      table.codes[ANY_CATEGORY]?.[code] ??
+      null,
+  };
+}
+
+/* ============================
+ * Timeline
+ * ============================ */
+
+/**
+ * Creates a timeline that turns Dock Errors frames into episodes, one per category and code
+ * each time it becomes active. Repeated active frames extend the open episode.
+ */
+export function createDockErrorTimeline(
+  options: DockErrorTimelineOptions = {}
+): DockErrorTimeline {
+  const { codeTable = { categories: {}, codes: {} } } = options;
+  const episodes: DockErrorEpisode[] = [];
+  const open = new Map<string, DockErrorEpisode>();
+  // Fields of the frame being read; Error Code completes it, Payload may follow
+  let category = 0;
+  let active = false;
+  let opened: DockErrorEpisode | undefined;
+
+  const onErrorCode = (point: DecodedPoint) => {
+    const code = point.value;
+    const key = `${category}:${code}`;
+    const episode = open.get(key);
+    opened = undefined;
+
+    if (!active) {
+      if (episode) {
+        episode.end = point.timestamp;
+        episode.durationMs = point.timestamp - episode.start;
+        open.delete(key);
+      }
+      return;
+    }
+    if (episode) {
+      episode.lastSeen = point.timestamp;
+      return;
+    }
+
+    opened = {
+      category,
+      code,
+      ...describeDockError(codeTable, category, code),
+      start: point.timestamp,
+      end: null,
+      durationMs: null,
+      lastSeen: point.timestamp,
+      payload: null,
+    };
+    open.set(key, opened);
+    episodes.push(opened);
+  };
+
+  return {
+    add(point: DecodedPoint): void {
+      if (
+        point.sender !== "dock" ||
+        point.messageId !== DOCK_ERRORS_MESSAGE_ID
+      ) {
+        return;
+      }
+      if (point.label === "Error Category") category = point.value;
+      if (point.label === "Active") active = point.value === ERROR_ACTIVE;
+      if (point.label === "Error Code") onErrorCode(point);
+      if (point.label === "Payload" && opened?.start === point.timestamp) {
+        opened.payload = point.exactValue ?? String(point.value);
+      }
+    },
+
+    finish: () => [...episodes],
+  };
+}
+
+/**
+ * Builds the dock error timeline from decoded series.
+ */
+export function buildDockErrorTimeline(
+  series: ParsedLogSeries[],
+  options: DockErrorTimelineOptions = {}
+): DockErrorEpisode[] {
+  const timeline = createDockErrorTimeline(options);
+  const dockErrors = series.filter(
+    (entry) =>
+      entry.sender === "dock" && entry.messageId === DOCK_ERRORS_MESSAGE_ID
+  );
+  seriesToPoints(dockErrors).forEach(timeline.add);
+  return timeline.finish();
+}
+
+/* ============================
+ * Downtime join
+ * ============================ */
+
+/**
+ * Flattens episodes into records keyed like chp's downtime data. When downtime events are
+ * given, each record lists the IDs of the swarmbot's events that overlap it; an episode still
+ * active at the end of the log overlaps everything after its start.
+ */
+export function toDockErrorRecords(
+  episodes: DockErrorEpisode[],
+  swarmbotID: string,
+  downtimeEvents: DowntimeEvent[] = []
+): DockErrorRecord[] {
+  const events = downtimeEvents.filter(
+    (event) => event.swarmbotID === swarmbotID
+  );
+  return episodes.map((episode) => {
+    const end = episode.end ?? Infinity;
+    return {
+      swarmbotID,
+      start: new Date(episode.start).toISOString(),
+      end: episode.end === null ? null : new Date(episode.end).toISOString(),
+      durationHr:
+        episode.durationMs === null ? null : episode.durationMs / MS_PER_HOUR,
+      errorCategory: episode.category,
+      errorCode: episode.code,
+      errorText: `${episode.categoryText ?? `Category ${episode.category}`} / ${
+        episode.codeText ?? `Code ${episode.code}`
+      }`,
+      payload: episode.payload,
+      downtimeEventIDs: events
+        .filter((event) => event.start < end && event.end > episode.start)
+        .map((event) => event.downtimeEventID),
+    };
+  });
+}
+
+/**
+ * Formats episodes as a plain-text timeline, one line per episode.
+ */
+export function formatDockErrorTimeline(episodes: DockErrorEpisode[]): string {
+  return episodes
+    .map((episode) => {
+      const text = [episode.categoryText, episode.codeText]
+        .filter(Boolean)
+        .join(" / ");
+      const span =
+        episode.end === null
+          ? "still active"
+          : `until ${new Date(episode.end).toISOString()} (${(
+              (episode.durationMs ?? 0) / 1000
+            ).toFixed(1)} s)`;
+      return `${new Date(episode.start).toISOString()} error ${
+        episode.category
+      }/${episode.code}${text ? ` ${text}` : ""}: ${span}`;
+    })
+    .join("\n");
+}
+
+/* ============================
+ * CLI
+ * `bun run dock_errors.ts [rows.jsonl] [--codes codes.yaml] [--swarmbot sb-0130]` prints the
+ * dock error timeline of a JSONEachRow dump, or of the bundled sample data. With --swarmbot
+ * it prints DockErrorRecords as JSON Lines instead, ready to join with chp's downtime events.
+ * ============================ */
+
+if (import.meta.main) {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    allowPositionals: true,
+    options: {
+      codes: { type: "string" },
+      swarmbot: { type: "string" },
+    },
+  });
+  const codeTable = values.codes
+    ? await loadErrorCodeTableFile(values.codes)
+    : undefined;
+  const timeline = createDockErrorTimeline({ codeTable });
+
+  const [inputPath] = positionals;
+  if (inputPath) {
+    const rows = readJSONEachRow(Bun.file(inputPath).stream());
+    for await (const batch of decodeUDPLogStream(rows)) {
+      batch.forEach(timeline.add);
+    }
+  } else {
+    decodeUDPLogRows(rawLogData, timeline.add);
+  }
+
+  const episodes = timeline.finish();
+  if (values.swarmbot) {
+    for (const record of toDockErrorRecords(episodes, values.swarmbot)) {
+      console.log(JSON.stringify(record));
+    }
+  } else {
+    console.log(
+      episodes.length > 0
+        ? formatDockErrorTimeline(episodes)
+        : "No dock errors found."
+    );
+  }
+}
@@ -0,0 +1,504 @@
+import {
+  deviceIds,
+  findSelectorField,
+  getConfigSectionForDevice,
+  getFieldVariants,
+  getSelectorBytes,
+  getUdpConfig,
+  getVariantSelectorValues,
+  matchFieldVariant,
+  MAX_UDP_MESSAGE_LENGTH,
+  resolveConfigMessage,
+  UDP_HEADER_LENGTH,
+  type DataType,
+  type FieldVariant,
+  type UdpConfig,
+  type UdpField,
+} from "./index";
+
+/* ============================
+ * Types
+ * ============================ */
+
+/**
+ * Selects the message to encode: either the full (little-endian) message ID,
+ * or a prefix entry plus the instance number that goes in the low byte.
+ */
+export type MessageSelector = number | { prefix: number; instance: number };
+
+/**
+ * Field values keyed by label. Bit fields are keyed `${label}_${bitName}`,
+ * matching the suffix the decoder emits. Fields with `dependent_on` accept the
+ * label of any variant (either half of an "A | B" label), which also sets the
+ * selector to a value picking that variant unless the selector field is given.
+ */
+export type EncodeValues = Record<string, number | bigint>;
+
+export interface EncodeUDPMessageOptions {
+  /** Config to lay the payload out against. Defaults to the decoder's active config. */
+  config?: UdpConfig;
+  /** 16 header bytes to start from. Device and message IDs are always stamped in. */
+  header?: number[];
+  /** Pads the payload with zeros up to at least this many bytes. */
+  payloadLength?: number;
+}
+
+/* ============================
+ * Constants
+ * ============================ */
+
+/**
+ * Header bytes as seen in captured dock frames. Only the device ID (0..1) and
+ * message ID (6..7) are meaningful to the decoder; the rest are passed through.
+ */
+const DEFAULT_UDP_HEADER = [
+  0, 0, 0, 0, 255, 255, 0, 0, 1, 0, 0, 255, 255, 255, 255, 255,
+];
+
+/**
+ * Relative slack for raw integer values, absorbing the floating-point error of dividing
+ * by a multiplier such as 0.1.
+ */
+const RAW_VALUE_TOLERANCE = 1e-9;
+
+/* ============================
+ * Helpers
+ * ============================ */
+
+/**
+ * Converts a raw (multiplier already divided out) value to a BigInt. Only the floating-point
+ * error of that division is rounded away; any other fraction is not representable and throws.
+ */
+function toRawBigInt(value: number | bigint, label: string): bigint {
+  if (typeof value === "bigint") return value;
+  const int = Math.round(value);
+  if (
+    !Number.isFinite(value) ||
+    Math.abs(value - int) > RAW_VALUE_TOLERANCE * Math.max(1, Math.abs(value))
+  ) {
+    throw new Error(
+      `Value ${value} for field '${label}' is not a whole number of raw units.`
+    );
+  }
+  return BigInt(int);
+}
+
+/**
+ * Converts a value to an unsigned integer and checks that it fits in `bitCount` bits.
+ */
+function toUnsignedBigInt(
+  value: number | bigint,
+  bitCount: number,
+  label: string
+): bigint {
+  const int = toRawBigInt(value, label);
+  if (int < 0n || int >= 1n << BigInt(bitCount)) {
+    throw new Error(
+      `Value ${value} for field '${label}' does not fit in ${bitCount} unsigned bits.`
+    );
+  }
+  return int;
+}
+
+/**
+ * Converts a value to a signed integer, checks that it fits in `bitCount` bits,
+ * and returns its two's complement bit pattern.
+ */
+function toSignedBigInt(
+  value: number | bigint,
+  bitCount: number,
+  label: string
+): bigint {
+  const int = toRawBigInt(value, label);
+  const limit = 1n << BigInt(bitCount - 1);
+  if (int < -limit || int >= limit) {
+    throw new Error(
+      `Value ${value} for field '${label}' does not fit in ${bitCount} signed bits.`
+    );
+  }
+  return BigInt.asUintN(bitCount, int);
+}
+
+/**
+ * Writes an unsigned integer little-endian across the given payload offsets.
+ */
+function writeLittleEndian(
+  payload: Uint8Array,
+  byteOffsets: number[],
+  value: bigint
+): void {
+  for (let i = 0; i < byteOffsets.length; i++) {
+    payload[byteOffsets[i] ?? 0] = Number((value >> BigInt(8 * i)) & 0xffn);
+  }
+}
+
+/**
+ * Inverse of getNumericValueFromBytes: writes `value` at the payload offsets using `dataType`.
+ * Fields without a numeric type are written as raw little-endian integers across their bytes.
+ */
+function writeNumericValueToBytes(
+  payload: Uint8Array,
+  byteOffsets: number[],
+  dataType: DataType,
+  value: number | bigint,
+  label: string
+): void {
+  const view = new DataView(payload.buffer);
+  const firstByteOffset = byteOffsets[0] ?? 0;
+
+  switch (dataType) {
+    case "uint8_t":
+      view.setUint8(firstByteOffset, Number(toUnsignedBigInt(value, 8, label)));
+      return;
+
+    case "int8_t":
+      view.setUint8(firstByteOffset, Number(toSignedBigInt(value, 8, label)));
+      return;
+
+    case "uint16_t":
+      view.setUint16(
+        firstByteOffset,
+        Number(toUnsignedBigInt(value, 16, label)),
+        true
+      );
+      return;
+
+    case "int16_t":
+      view.setUint16(
+        firstByteOffset,
+        Number(toSignedBigInt(value, 16, label)),
+        true
+      );
+      return;
+
+    case "uint32_t":
+      view.setUint32(
+        firstByteOffset,
+        Number(toUnsignedBigInt(value, 32, label)),
+        true
+      );
+      return;
+
+    case "int32_t":
+      view.setUint32(
+        firstByteOffset,
+        Number(toSignedBigInt(value, 32, label)),
+        true
+      );
+      return;
+
+    case "float":
+      view.setFloat32(firstByteOffset, Number(value), true);
+      return;
+
+    case "double":
+      view.setFloat64(firstByteOffset, Number(value), true);
+      return;
+
+    case "bool":
+      view.setUint8(firstByteOffset, Number(value) ? 1 : 0);
+      return;
+
+    case "uint64_t":
+      writeLittleEndian(
+        payload,
+        byteOffsets.slice(0, 8),
+        toUnsignedBigInt(value, 64, label)
+      );
+      return;
+
+    case "int64_t":
+      writeLittleEndian(
+        payload,
+        byteOffsets.slice(0, 8),
+        toSignedBigInt(value, 64, label)
+      );
+      return;
+
+    default:
+      writeLittleEndian(
+        payload,
+        byteOffsets,
+        toUnsignedBigInt(value, 8 * byteOffsets.length, label)
+      );
+  }
+}
+
+/**
+ * Number of payload bytes needed to hold every field (and dependency bit) of a message.
+ */
+function getPayloadLength(fields: UdpField[]): number {
+  let length = 0;
+  for (const field of fields) {
+    for (const byte of field.bytes) {
+      length = Math.max(length, byte + 1);
+    }
+    if (field.dependent_on && !("field" in field.dependent_on)) {
+      for (const byte of getSelectorBytes(field.dependent_on)) {
+        length = Math.max(length, byte + 1);
+      }
+    }
+  }
+  return length;
+}
+
+/**
+ * Whether `values` has a key for a field written under `label` (any bit, for a bit field).
+ */
+function suppliesLabel(
+  field: UdpField,
+  label: string,
+  values: EncodeValues
+): boolean {
+  if (field.use_bits === 1 && field.bits) {
+    return field.bits.some((bit) => `${label}_${bit.Name}` in values);
+  }
+  return label in values;
+}
+
+/**
+ * Picks the variant each conditional field is written as. A given selector field decides;
+ * otherwise the variant is the one whose label was supplied, and the selector is set to the
+ * first value that picks it. `variants` holds null for fields left out; the selector values
+ * are keyed by field label, or by "byte:bit:num" for payload bits.
+ */
+function pickVariants(
+  fields: UdpField[],
+  values: EncodeValues
+): {
+  variants: Map<UdpField, FieldVariant | null>;
+  selectorFields: Map<string, number>;
+  selectorBits: Map<string, number>;
+} {
+  const variants = new Map<UdpField, FieldVariant | null>();
+  const selectorFields = new Map<string, number>();
+  const selectorBits = new Map<string, number>();
+
+  for (const field of fields) {
+    const { label, dependent_on } = field;
+    const candidates = getFieldVariants(field);
+    if (!dependent_on || candidates.length === 0) continue;
+
+    const selectorField =
+      "field" in dependent_on
+        ? findSelectorField(fields, dependent_on.field)
+        : null;
+    const enumMap =
+      selectorField && !selectorField.bit && selectorField.field.use_enum === 1
+        ? selectorField.field.enum
+        : undefined;
+    const read = (value: number) => ({
+      value,
+      enumLabel: enumMap?.[String(value)] ?? null,
+    });
+
+    const given =
+      "field" in dependent_on ? values[dependent_on.field] : undefined;
+    if (given !== undefined) {
+      variants.set(field, matchFieldVariant(candidates, read(Number(given))));
+      continue;
+    }
+
+    const supplied = candidates.filter((variant) =>
+      suppliesLabel(field, variant.label ?? label, values)
+    );
+    const labels = [...new Set(supplied.map((v) => v.label ?? label))];
+    if (labels.length > 1) {
+      throw new Error(
+        `Field '${label}' was given both ${labels
+          .map((l) => `'${l}'`)
+          .join(" and ")}.`
+      );
+    }
+    const [variant] = supplied;
+    variants.set(field, variant ?? null);
+    if (!variant) continue;
+
+    // Raw values listed in `when`, enum labels mapped back to theirs; 0 for a catch-all
+    const when = getVariantSelectorValues(variant) ?? [0];
+    const value = when
+      .map((entry) =>
+        typeof entry === "number"
+          ? entry
+          : Number(
+              Object.entries(enumMap ?? {}).find(
+                ([, text]) => text === entry
+              )?.[0] ?? NaN
+            )
+      )
+      .find((entry) => matchFieldVariant(candidates, read(entry)) === variant);
+    if (value === undefined) {
+      throw new Error(
+        `No selector value picks '${
+          variant.label ?? label
+        }' of field '${label}'; give the selector explicitly.`
+      );
+    }
+
+    const [selectors, key] =
+      "field" in dependent_on
+        ? [selectorFields, dependent_on.field]
+        : [
+            selectorBits,
+            `${dependent_on.byte}:${dependent_on.bit}:${dependent_on.num ?? 1}`,
+          ];
+    const existing = selectors.get(key);
+    if (existing !== undefined && existing !== value) {
+      throw new Error(
+        `Field '${label}' needs selector ${key} = ${value}, but another field already set it to ${existing}.`
+      );
+    }
+    selectors.set(key, value);
+  }
+  return { variants, selectorFields, selectorBits };
+}
+
+/* ============================
+ * Encoder
+ * ============================ */
+
+/**
+ * Builds a raw UDP frame (16-byte header + payload) for a configured message.
+ * This is the reverse of transformUDPLogToTimeSeries: decoding the result yields the given values.
+ * Fields missing from `values` are left as zero bytes; unknown labels and integer field values
+ * that are not a whole number of raw units (value / multiplier) throw.
+ */
+export function encodeUDPMessage(
+  deviceName: string,
+  message: MessageSelector,
+  values: EncodeValues,
+  options: EncodeUDPMessageOptions = {}
+): number[] {
+  const { config = getUdpConfig(), header = DEFAULT_UDP_HEADER } = options;
+
+  const deviceId = deviceIds[deviceName];
+  if (deviceId === undefined) {
+    throw new Error(`Unknown device '${deviceName}'.`);
+  }
+
+  const messageIdLE =
+    typeof message === "number"
+      ? message
+      : ((message.prefix & 0xff) << 8) | (message.instance & 0xff);
+  if (
+    !Number.isInteger(messageIdLE) ||
+    messageIdLE < 0 ||
+    messageIdLE > 0xffff
+  ) {
+    throw new Error(`Message ID ${messageIdLE} is not a 16-bit integer.`);
+  }
+
+  const { configMessage, isPrefix } = resolveConfigMessage(
+    getConfigSectionForDevice(config, deviceName),
+    messageIdLE
+  );
+  if (!configMessage || (typeof message !== "number" && !isPrefix)) {
+    throw new Error(
+      `No config entry for message ${messageIdLE} on device '${deviceName}'.`
+    );
+  }
+
+  const payload = new Uint8Array(
+    Math.max(getPayloadLength(configMessage.Fields), options.payloadLength ?? 0)
+  );
+  if (UDP_HEADER_LENGTH + payload.length > MAX_UDP_MESSAGE_LENGTH) {
+    throw new Error(
+      `Encoded message would exceed ${MAX_UDP_MESSAGE_LENGTH} bytes.`
+    );
+  }
+
+  const usedKeys = new Set<string>();
+  const { variants, selectorFields, selectorBits } = pickVariants(
+    configMessage.Fields,
+    values
+  );
+  // Selector fields the caller left out are written like given ones
+  const fieldValues: EncodeValues = {
+    ...Object.fromEntries(selectorFields),
+    ...values,
+  };
+
+  for (const field of configMessage.Fields) {
+    const { label, bytes, bits, use_bits } = field;
+    let { type, multiplier } = field;
+
+    // ---- Write a conditional field as its picked variant ----
+    let finalLabel = label;
+    if (variants.has(field)) {
+      const variant = variants.get(field);
+      if (!variant) continue;
+      finalLabel = variant.label ?? label;
+      type = variant.type !== undefined ? variant.type : type;
+      multiplier = variant.multiplier ?? multiplier;
+    }
+
+    if (use_bits === 1 && bits) {
+      // --- Bit Field Encoding ---
+      let combinedValue = 0n;
+      let hasValue = false;
+      for (const bitConfig of bits) {
+        const key = `${finalLabel}_${bitConfig.Name}`;
+        const value = fieldValues[key];
+        if (value === undefined) continue;
+        usedKeys.add(key);
+        hasValue = true;
+        const raw = toUnsignedBigInt(
+          typeof value === "bigint" ? value : value / multiplier,
+          bitConfig.Num,
+          key
+        );
+        combinedValue |= raw << BigInt(bitConfig.Start);
+      }
+      if (hasValue) {
+        toUnsignedBigInt(combinedValue, 8 * bytes.length, finalLabel);
+        writeLittleEndian(payload, bytes, combinedValue);
+      }
+    } else if (bytes.length > 0) {
+      // --- Standard Field Encoding ---
+      const value = fieldValues[finalLabel];
+      if (value === undefined) continue;
+      usedKeys.add(finalLabel);
+      writeNumericValueToBytes(
+        payload,
+        bytes,
+        type,
+        typeof value === "bigint" || multiplier === 1.0
+          ? value
+          : value / multiplier,
+        finalLabel
+      );
+    }
+  }
+
+  // Set selector bits last so fields sharing those bytes don't overwrite them
+  for (const [key, value] of selectorBits) {
+    const [byte = 0, bit = 0, num = 1] = key.split(":").map(Number);
+    const bytes = getSelectorBytes({ byte, bit, num });
+    const mask = ((1n << BigInt(num)) - 1n) << BigInt(bit);
+    let combined = 0n;
+    bytes.forEach((offset, i) => {
+      combined |= BigInt(payload[offset] ?? 0) << BigInt(8 * i);
+    });
+    combined =
+      (combined & ~mask) | (toUnsignedBigInt(value, num, key) << BigInt(bit));
+    writeLittleEndian(payload, bytes, combined);
+  }
+
+  const unknownKeys = Object.keys(values).filter((key) => !usedKeys.has(key));
+  if (unknownKeys.length > 0) {
+    throw new Error(
+      `Unknown field label(s) for '${
+        configMessage.Description
+      }': ${unknownKeys.join(", ")}.`
+    );
+  }
+
+  const frame = header.slice(0, UDP_HEADER_LENGTH);
+  while (frame.length < UDP_HEADER_LENGTH) frame.push(0);
+  frame[0] = deviceId & 0xff;
+  frame[1] = (deviceId >> 8) & 0xff;
+  frame[6] = messageIdLE & 0xff;
+  frame[7] = (messageIdLE >> 8) & 0xff;
+
+  return frame.concat(Array.from(payload));
+}
@@ -0,0 +1,293 @@
+import { parquetWriteBuffer } from "hyparquet-writer";
+import { extname } from "path";
+import { parseArgs } from "util";
+import { rawLogData } from "./data";
+import { loadDBCConfig } from "./dbc";
+import type { DecodeOptions } from "./index";
+import {
+  createSeriesAggregator,
+  transformUDPLogToSeries,
+  type ParsedLogSeries,
+} from "./series";
+import { decodeUDPLogStream, readJSONEachRow } from "./stream";
+
+/* ============================
+ * Types
+ * ============================ */
+
+/**
+ * Restricts an export to some senders and/or messages. Omitted lists match everything.
+ */
+export interface ExportFilter {
+  senders?: string[]; // e.g. ["dock", "swarmbot"]
+  messageIds?: string[]; // hex message IDs (UDP) or CAN IDs, e.g. ["0010", "0003"]
+}
+
+export interface WideCSVOptions extends ExportFilter {
+  /** Repeat a field's last value in rows where it has no sample. Defaults to false. */
+  fillForward?: boolean;
+}
+
+/**
+ * One sample in long format, as written to JSON Lines and Parquet.
+ */
+export interface ExportRecord {
+  timestamp: number; // epoch milliseconds
+  sender: string;
+  messageId: string;
+  instance: number | null;
+  id: string;
+  label: string;
+  unit: string;
+  value: number;
+  enumLabel: string | null; // enum fields only; null where the value is unknown
+  exactValue: string | null; // 64-bit integer fields only
+}
+
+/* ============================
+ * Helpers
+ * ============================ */
+
+/**
+ * Keeps the series that match the filter.
+ */
+export function filterSeries(
+  series: ParsedLogSeries[],
+  filter: ExportFilter = {}
+): ParsedLogSeries[] {
+  const senders = filter.senders && new Set(filter.senders);
+  const messageIds =
+    filter.messageIds &&
+    new Set(filter.messageIds.map((id) => id.toLowerCase()));
+  return series.filter(
+    (entry) =>
+      (!senders || senders.has(entry.sender)) &&
+      (!messageIds || messageIds.has(entry.messageId.toLowerCase()))
+  );
+}
+
+/**
+ * Formats one sample for text output: the enum label if known, the exact 64-bit value, or the number.
+ */
+function formatSampleValue(entry: ParsedLogSeries, index: number): string {
+  const enumLabel = entry.enumLabels?.[index];
+  if (enumLabel) return enumLabel;
+  const exactValue = entry.exactValues?.[index];
+  if (exactValue) return exactValue;
+  return String(entry.values[index]);
+}
+
+/**
+ * Quotes a CSV cell when it contains a delimiter, quote or newline.
+ */
+function escapeCSV(cell: string): string {
+  return /[",\n\r]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+/* ============================
+ * Long format
+ * ============================ */
+
+/**
+ * Flattens series into one record per sample, ordered by timestamp.
+ */
+export function toExportRecords(
+  series: ParsedLogSeries[],
+  filter: ExportFilter = {}
+): ExportRecord[] {
+  const records: ExportRecord[] = [];
+  for (const entry of filterSeries(series, filter)) {
+    entry.timestamps.forEach((timestamp, index) => {
+      records.push({
+        timestamp,
+        sender: entry.sender,
+        messageId: entry.messageId,
+        instance: entry.instance ?? null,
+        id: entry.id,
+        label: entry.label,
+        unit: entry.unit,
+        value: entry.values[index] ?? NaN,
+        enumLabel: entry.enumLabels?.[index] ?? null,
+        exactValue: entry.exactValues?.[index] ?? null,
+      });
+    });
+  }
+  // Stable sort keeps each timestamp's samples in series order
+  return records.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Exports series as JSON Lines, one ExportRecord per line.
+ */
+export function toJSONLines(
+  series: ParsedLogSeries[],
+  filter: ExportFilter = {}
+): string {
+  return toExportRecords(series, filter)
+    .map((record) => JSON.stringify(record) + "\n")
+    .join("");
+}
+
+/**
+ * Exports series as a long-format Parquet file with one row per sample.
+ */
+export function toParquet(
+  series: ParsedLogSeries[],
+  filter: ExportFilter = {}
+): ArrayBuffer {
+  const records = toExportRecords(series, filter);
+  const column = <K extends keyof ExportRecord>(key: K) =>
+    records.map((record) => record[key]);
+
+  return parquetWriteBuffer({
+    columnData: [
+      {
+        name: "timestamp",
+        data: records.map((record) => new Date(record.timestamp)),
+        type: "TIMESTAMP",
+      },
+      { name: "sender", data: column("sender"), type: "STRING" },
+      { name: "message_id", data: column("messageId"), type: "STRING" },
+      { name: "instance", data: column("instance"), type: "INT32" },
+      { name: "id", data: column("id"), type: "STRING" },
+      { name: "label", data: column("label"), type: "STRING" },
+      { name: "unit", data: column("unit"), type: "STRING" },
+      { name: "value", data: column("value"), type: "DOUBLE" },
+      { name: "enum_label", data: column("enumLabel"), type: "STRING" },
+      { name: "exact_value", data: column("exactValue"), type: "STRING" },
+    ],
+  });
+}
+
+/* ============================
+ * Wide format
+ * ============================ */
+
+/**
+ * Exports series as CSV with one row per distinct timestamp and one column per field id.
+ * Column headers carry the unit, e.g. `dock_0002_Fuel Level [%]`; enum cells hold their label.
+ */
+export function toWideCSV(
+  series: ParsedLogSeries[],
+  options: WideCSVOptions = {}
+): string {
+  const { fillForward = false } = options;
+  const columns = filterSeries(series, options);
+
+  const timestamps = Array.from(
+    new Set(columns.flatMap((entry) => Array.from(entry.timestamps)))
+  ).sort((a, b) => a - b);
+  const rowIndex = new Map(timestamps.map((timestamp, i) => [timestamp, i]));
+
+  // cells[row][column]; a later sample at the same timestamp wins
+  const cells = timestamps.map(() =>
+    new Array<string>(columns.length).fill("")
+  );
+  columns.forEach((entry, columnIndex) => {
+    entry.timestamps.forEach((timestamp, sampleIndex) => {
+      const row = cells[rowIndex.get(timestamp) ?? 0];
+      if (row) row[columnIndex] = formatSampleValue(entry, sampleIndex);
+    });
+  });
+
+  if (fillForward) {
+    for (let row = 1; row < cells.length; row++) {
+      const current = cells[row] ?? [];
+      const previous = cells[row - 1] ?? [];
+      current.forEach((cell, columnIndex) => {
+        if (cell === "") current[columnIndex] = previous[columnIndex] ?? "";
+      });
+    }
+  }
+
+  const header = [
+    "timestamp",
+    ...columns.map((entry) =>
+      entry.unit ? `${entry.id} [${entry.unit}]` : entry.id
+    ),
+  ];
+  const lines = [
+    header,
+    ...cells.map((row, i) => [String(timestamps[i]), ...row]),
+  ];
+  return lines.map((line) => line.map(escapeCSV).join(",") + "\n").join("");
+}
+
+/* ============================
+ * Files
+ * ============================ */
+
+/**
+ * Writes series to a file whose extension picks the format: `.csv` (wide), `.jsonl` or `.parquet`.
+ */
+export async function exportSeriesFile(
+  path: string,
+  series: ParsedLogSeries[],
+  options: WideCSVOptions = {}
+): Promise<void> {
+  const extension = extname(path).toLowerCase();
+  if (extension === ".csv") {
+    await Bun.write(path, toWideCSV(series, options));
+  } else if (extension === ".jsonl") {
+    await Bun.write(path, toJSONLines(series, options));
+  } else if (extension === ".parquet") {
+    await Bun.write(path, toParquet(series, options));
+  } else {
+    throw new Error(
+      `Unsupported export file type '${extension}' (${path}); expected .csv, .jsonl or .parquet.`
+    );
+  }
+}
+
+/* ============================
+ * CLI
+ * `bun run export.ts <out.csv|out.jsonl|out.parquet> [rows.jsonl] [--sender dock] [--message 0004] [--fill-forward]
+ * [--dbc-can0 bus0.dbc] [--dbc-can1 bus1.dbc]` exports a JSONEachRow dump, or the bundled sample data.
+ * --sender and --message may repeat; --dbc-can0/--dbc-can1 decode that bus's CAN rows with a DBC file.
+ * ============================ */
+
+if (import.meta.main) {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    allowPositionals: true,
+    options: {
+      sender: { type: "string", multiple: true },
+      message: { type: "string", multiple: true },
+      "fill-forward": { type: "boolean" },
+      "dbc-can0": { type: "string" },
+      "dbc-can1": { type: "string" },
+    },
+  });
+  const [outputPath, inputPath] = positionals;
+  if (!outputPath) {
+    console.error(
+      "Usage: bun run export.ts <out.csv|out.jsonl|out.parquet> [rows.jsonl] [--sender name] [--message hex] [--fill-forward] [--dbc-can0 file] [--dbc-can1 file]"
+    );
+    process.exit(1);
+  }
+  const decodeOptions: DecodeOptions = {
+    canConfig: await loadDBCConfig({
+      sb_can0: values["dbc-can0"],
+      sb_can1: values["dbc-can1"],
+    }),
+  };
+
+  let series: ParsedLogSeries[];
+  if (inputPath) {
+    const aggregator = createSeriesAggregator();
+    const rows = readJSONEachRow(Bun.file(inputPath).stream());
+    for await (const batch of decodeUDPLogStream(rows, decodeOptions)) {
+      batch.forEach(aggregator.add);
+    }
+    series = aggregator.finish();
+  } else {
+    series = transformUDPLogToSeries(rawLogData, decodeOptions);
+  }
+
+  await exportSeriesFile(outputPath, series, {
+    senders: values.sender,
+    messageIds: values.message,
+    fillForward: values["fill-forward"],
+  });
+  console.log(`Wrote ${outputPath}`);
+}
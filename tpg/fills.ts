@@ -0,0 +1,517 @@
+import { rawLogData } from "./data";
+import {
+  decodeUDPLogRows,
+  getFieldLabel,
+  type DecodedPoint,
+  type DecodedPointSink,
+} from "./index";
+import { seriesToPoints, type ParsedLogSeries } from "./series";
+import { decodeUDPLogStream, readJSONEachRow } from "./stream";
+
+/* ============================
+ * Types
+ * ============================ */
+
+/**
+ * How a fill session ended:
+ * - completed: the dock reported Fill Finished
+ * - aborted: the swarmbot withdrew its refill request, or asked for a different refill ID
+ * - timed_out: no fill messages for longer than the idle timeout (e.g. the link dropped)
+ * - incomplete: the data ended while the session was still open
+ */
+export type FillSessionOutcome =
+  | "completed"
+  | "aborted"
+  | "timed_out"
+  | "incomplete";
+
+/**
+ * One dock error code that was active during a session.
+ */
+export interface FillSessionError {
+  category: number;
+  code: number;
+  firstSeen: number; // epoch ms
+  lastSeen: number; // epoch ms
+  count: number; // Dock Errors frames reporting it as active
+}
+
+/**
+ * What the swarmbot asked for from one product slot (Payload Fill Request[s]).
+ */
+export interface PayloadRequest {
+  product: number;
+  fillType: string | null;
+  volumeRequested: number | null; // L
+}
+
+/**
+ * What the dock reported for one valve (Payload Fill Status[es]).
+ */
+export interface PayloadDelivery {
+  valve: number;
+  fillType: string | null;
+  injectionState: string | null; // last state seen, e.g. "Finished"
+  delivered: boolean; // the dock's Delivered flag was set
+  chemVolumeMeasured: number | null; // L
+}
+
+/**
+ * A swarmbot tank's level when the session opened and when it closed.
+ */
+export interface TankLevelChange {
+  tank: number;
+  start: number | null; // L, last level seen before or at the start
+  end: number | null; // L
+}
+
+/**
+ * The dock's own summary of a refill (Last Fill Info), when it names this session's refill ID.
+ */
+export interface FillReport {
+  waterRequested: number; // L
+  waterDelivered: number; // L
+  productDelivered: number[]; // L, index 0 is product 1
+}
+
+/**
+ * One water/payload fill, from the swarmbot's refill request until it ended.
+ */
+export interface FillSession {
+  refillId: number; // Swarmbot Connection Status "Refill ID"
+  resumed: boolean; // the swarmbot sent ResumeRefill during the session
+  start: number; // epoch ms
+  end: number; // epoch ms
+  outcome: FillSessionOutcome;
+  waterRequested: number | null; // L, from Water Fill Request
+  /** L; the dock's Last Fill Info when it reports this refill, else the last Volume Delivered */
+  waterDelivered: number | null;
+  meanFlowRate: number | null; // L/s, mean Transfer Rate Measured while flowing
+  peakFlowRate: number | null; // L/s
+  payloadRequests: PayloadRequest[];
+  payloadDeliveries: PayloadDelivery[];
+  tankLevels: TankLevelChange[];
+  errors: FillSessionError[];
+  report?: FillReport;
+}
+
+export interface FillSessionOptions {
+  /** An open session with no fill messages for this long is closed as timed_out. Defaults to 120000 ms. */
+  idleTimeoutMs?: number;
+}
+
+export interface FillSessionTracker {
+  /** Feeds one decoded point; points must arrive in time order. */
+  add: DecodedPointSink;
+  /** Closes any open session as incomplete and returns every session, oldest first. */
+  finish: () => FillSession[];
+}
+
+/**
+ * A session while it is open, with measurements not yet summarised.
+ */
+type OpenSession = {
+  session: FillSession;
+  volumeDelivered: number | null;
+  flowRates: number[];
+  lastActivity: number;
+};
+
+/* ============================
+ * Constants
+ * ============================ */
+
+const DEFAULT_IDLE_TIMEOUT_MS = 120000;
+
+// Sender and message ID of every message in the fill conversation; prefix messages by high byte only
+const FILL_MESSAGES = {
+  swarmbotConnection: "swarmbot:0001",
+  waterFillRequest: "swarmbot:0002",
+  payloadFillRequest: "swarmbot:10",
+  tankLevel: "swarmbot:11",
+  dockConnection: "dock:0001",
+  waterFillStatus: "dock:0003",
+  dockErrors: "dock:0004",
+  lastFillInfo: "dock:000a",
+  payloadFillStatus: "dock:10",
+} as const;
+
+const FILL_MESSAGE_KEYS = new Set<string>(Object.values(FILL_MESSAGES));
+
+// Swarmbot Connection Status "Refill Request"
+const NO_REFILL = 0;
+const RESUME_REFILL = 2;
+
+// Dock Errors "Active"
+const ERROR_ACTIVE = 0;
+
+/* ============================
+ * Helpers
+ * ============================ */
+
+/**
+ * Keys a point by sender and message, matching FILL_MESSAGES.
+ */
+function messageKey(point: DecodedPoint): string {
+  const messageId =
+    point.instance === undefined
+      ? point.messageId
+      : point.messageId.slice(0, 2);
+  return `${point.sender}:${messageId.toLowerCase()}`;
+}
+
+function findOrAdd<T>(
+  items: T[],
+  match: (item: T) => boolean,
+  create: () => T
+): T {
+  const found = items.find(match);
+  if (found) return found;
+  const item = create();
+  items.push(item);
+  return item;
+}
+
+/* ============================
+ * Tracker
+ * ============================ */
+
+/**
+ * Creates a tracker that links the fill conversation into sessions. A session opens when the
+ * swarmbot requests a refill (Swarmbot Connection Status), collects the water and payload
+ * requests, the dock's fill statuses, tank levels and active dock errors, and closes when the
+ * dock reports Fill Finished, the request is withdrawn, or the messages stop.
+ */
+export function createFillSessionTracker(
+  options: FillSessionOptions = {}
+): FillSessionTracker {
+  const { idleTimeoutMs = DEFAULT_IDLE_TIMEOUT_MS } = options;
+  const sessions: FillSession[] = [];
+  const tankLevels = new Map<number, number>();
+  let open: OpenSession | undefined;
+  // Fields of the frame being read, for triggers on a frame's later fields
+  let refillRequest = NO_REFILL;
+  let errorCategory = 0;
+  let errorActive = false;
+  let fillFinished: number | undefined;
+  // A completed refill ID is not reopened until the swarmbot drops or changes its request
+  let completedRefillId: number | undefined;
+  let reportTarget: FillSession | undefined;
+
+  const close = (outcome: FillSessionOutcome, end: number) => {
+    if (!open) return;
+    const { session, volumeDelivered, flowRates } = open;
+    session.outcome = outcome;
+    session.end = end;
+    session.waterDelivered = session.report?.waterDelivered ?? volumeDelivered;
+    if (flowRates.length > 0) {
+      session.meanFlowRate =
+        flowRates.reduce((sum, rate) => sum + rate, 0) / flowRates.length;
+      session.peakFlowRate = Math.max(...flowRates);
+    }
+    for (const tank of session.tankLevels) {
+      tank.end = tankLevels.get(tank.tank) ?? tank.end;
+    }
+    if (outcome === "completed") completedRefillId = session.refillId;
+    open = undefined;
+  };
+
+  const openSession = (timestamp: number, refillId: number) => {
+    open = {
+      session: {
+        refillId,
+        resumed: refillRequest === RESUME_REFILL,
+        start: timestamp,
+        end: timestamp,
+        outcome: "incomplete",
+        waterRequested: null,
+        waterDelivered: null,
+        meanFlowRate: null,
+        peakFlowRate: null,
+        payloadRequests: [],
+        payloadDeliveries: [],
+        tankLevels: Array.from(tankLevels, ([tank, level]) => ({
+          tank,
+          start: level,
+          end: level,
+        })),
+        errors: [],
+      },
+      volumeDelivered: null,
+      flowRates: [],
+      lastActivity: timestamp,
+    };
+    sessions.push(open.session);
+  };
+
+  const onSwarmbotConnection = (point: DecodedPoint) => {
+    const label = getFieldLabel(point);
+    if (label === "Refill Request") {
+      refillRequest = point.value;
+      return;
+    }
+    if (label !== "Refill ID") return;
+
+    const refillId = point.value;
+    if (refillRequest === NO_REFILL) {
+      completedRefillId = undefined;
+      if (open) close("aborted", point.timestamp);
+      return;
+    }
+    if (open && open.session.refillId !== refillId) {
+      close("aborted", point.timestamp);
+    }
+    if (open) {
+      if (refillRequest === RESUME_REFILL) open.session.resumed = true;
+    } else if (completedRefillId !== refillId) {
+      completedRefillId = undefined;
+      openSession(point.timestamp, refillId);
+    }
+  };
+
+  const onSessionPoint = (session: OpenSession, point: DecodedPoint) => {
+    const key = messageKey(point);
+    const label = getFieldLabel(point);
+    const { value, instance = 0 } = point;
+
+    if (
+      key === FILL_MESSAGES.waterFillRequest &&
+      label === "Volume Requested"
+    ) {
+      session.session.waterRequested = value;
+    } else if (key === FILL_MESSAGES.waterFillStatus) {
+      if (label === "Volume Delivered") session.volumeDelivered = value;
+      if (label === "Transfer Rate Measured" && value > 0) {
+        session.flowRates.push(value);
+      }
+    } else if (key === FILL_MESSAGES.payloadFillRequest) {
+      const request = findOrAdd(
+        session.session.payloadRequests,
+        (entry) => entry.product === instance,
+        () => ({ product: instance, fillType: null, volumeRequested: null })
+      );
+      if (label === "Fill Type") request.fillType = point.enumLabel ?? null;
+      if (label === "Volume Requested") request.volumeRequested = value;
+    } else if (key === FILL_MESSAGES.payloadFillStatus) {
+      const delivery = findOrAdd(
+        session.session.payloadDeliveries,
+        (entry) => entry.valve === instance,
+        () => ({
+          valve: instance,
+          fillType: null,
+          injectionState: null,
+          delivered: false,
+          chemVolumeMeasured: null,
+        })
+      );
+      if (label === "Fill Type") delivery.fillType = point.enumLabel ?? null;
+      if (label === "InjectionState") {
+        delivery.injectionState = point.enumLabel ?? null;
+      }
+      if (label === "Delivered" && value === 1) delivery.delivered = true;
+      if (label === "Chem Volume Measured") delivery.chemVolumeMeasured = value;
+    } else if (
+      key === FILL_MESSAGES.tankLevel &&
+      label === "Actual Tank Level"
+    ) {
+      findOrAdd(
+        session.session.tankLevels,
+        (entry) => entry.tank === instance,
+        () => ({ tank: instance, start: null, end: null })
+      );
+    } else if (key === FILL_MESSAGES.dockErrors) {
+      if (label === "Error Category") errorCategory = value;
+      if (label === "Active") errorActive = value === ERROR_ACTIVE;
+      if (label === "Error Code" && errorActive) {
+        const error = findOrAdd(
+          session.session.errors,
+          (entry) => entry.category === errorCategory && entry.code === value,
+          () => ({
+            category: errorCategory,
+            code: value,
+            firstSeen: point.timestamp,
+            lastSeen: point.timestamp,
+            count: 0,
+          })
+        );
+        error.lastSeen = point.timestamp;
+        error.count++;
+      }
+    }
+  };
+
+  const onLastFillInfo = (point: DecodedPoint) => {
+    const label = getFieldLabel(point);
+    if (label === "Last Refill ID") {
+      // Reported while the fill is open, or after it closed
+      const target = open?.session ?? sessions[sessions.length - 1];
+      reportTarget = target?.refillId === point.value ? target : undefined;
+      if (reportTarget) {
+        reportTarget.report ??= {
+          waterRequested: 0,
+          waterDelivered: 0,
+          productDelivered: [],
+        };
+      }
+      return;
+    }
+    const report = reportTarget?.report;
+    if (!report) return;
+
+    if (label === "Water Requested") report.waterRequested = point.value;
+    if (label === "Water Delivered") {
+      report.waterDelivered = point.value;
+      // A report for an already closed session replaces its measured volume
+      if (reportTarget !== open?.session && reportTarget) {
+        reportTarget.waterDelivered = point.value;
+      }
+    }
+    const product = label.match(/^Product (\d+) Delivered L$/)?.[1];
+    if (product) report.productDelivered[Number(product) - 1] = point.value;
+  };
+
+  return {
+    add(point: DecodedPoint): void {
+      const key = messageKey(point);
+      if (!FILL_MESSAGE_KEYS.has(key)) return;
+
+      if (open && point.timestamp - open.lastActivity > idleTimeoutMs) {
+        close("timed_out", open.lastActivity);
+      }
+
+      if (
+        key === FILL_MESSAGES.tankLevel &&
+        getFieldLabel(point) === "Actual Tank Level"
+      ) {
+        tankLevels.set(point.instance ?? 0, point.value);
+      }
+      if (key === FILL_MESSAGES.swarmbotConnection) onSwarmbotConnection(point);
+      if (key === FILL_MESSAGES.lastFillInfo) onLastFillInfo(point);
+
+      const finished =
+        key === FILL_MESSAGES.dockConnection &&
+        getFieldLabel(point) === "Fill Finished";
+      // Only a change to Yes finishes a fill; the flag may still be set from the last one
+      const previousFillFinished = fillFinished;
+      if (finished) fillFinished = point.value;
+
+      if (!open) return;
+      open.lastActivity = point.timestamp;
+      onSessionPoint(open, point);
+      if (finished && point.value === 1 && previousFillFinished !== 1) {
+        close("completed", point.timestamp);
+      }
+    },
+
+    finish(): FillSession[] {
+      if (open) close("incomplete", open.lastActivity);
+      return [...sessions];
+    },
+  };
+}
+
+/**
+ * Reconstructs fill sessions from decoded series.
+ */
+export function reconstructFillSessions(
+  series: ParsedLogSeries[],
+  options: FillSessionOptions = {}
+): FillSession[] {
+  const tracker = createFillSessionTracker(options);
+  for (const point of seriesToPoints(series)) tracker.add(point);
+  return tracker.finish();
+}
+
+/* ============================
+ * Report
+ * ============================ */
+
+function formatLitres(value: number | null): string {
+  return value === null ? "?" : `${value.toFixed(1)} L`;
+}
+
+/**
+ * Formats sessions as a plain-text report, one block per session.
+ */
+export function formatFillSessionReport(sessions: FillSession[]): string {
+  return sessions
+    .map((session) => {
+      const lines = [
+        `Refill ${session.refillId}${session.resumed ? " (resumed)" : ""}: ${
+          session.outcome
+        }`,
+        `  ${new Date(session.start).toISOString()} .. ${new Date(
+          session.end
+        ).toISOString()} (${((session.end - session.start) / 1000).toFixed(
+          1
+        )} s)`,
+        `  water ${formatLitres(session.waterDelivered)} of ${formatLitres(
+          session.waterRequested
+        )} requested` +
+          (session.meanFlowRate === null
+            ? ""
+            : `, flow mean ${session.meanFlowRate.toFixed(
+                2
+              )} L/s, peak ${session.peakFlowRate?.toFixed(2)} L/s`),
+      ];
+      for (const request of session.payloadRequests) {
+        lines.push(
+          `  product ${request.product}: ${
+            request.fillType ?? "?"
+          }, ${formatLitres(request.volumeRequested)} requested`
+        );
+      }
+      for (const delivery of session.payloadDeliveries) {
+        lines.push(
+          `  valve ${delivery.valve}: ${delivery.fillType ?? "?"}, ${
+            delivery.injectionState ?? "?"
+          }, ${formatLitres(delivery.chemVolumeMeasured)} measured${
+            delivery.delivered ? ", delivered" : ""
+          }`
+        );
+      }
+      for (const tank of session.tankLevels) {
+        lines.push(
+          `  tank ${tank.tank}: ${formatLitres(tank.start)} -> ${formatLitres(
+            tank.end
+          )}`
+        );
+      }
+      for (const error of session.errors) {
+        lines.push(
+          `  error ${error.category}/${error.code} seen ${
+            error.count
+          }x from ${new Date(error.firstSeen).toISOString()}`
+        );
+      }
+      return lines.join("\n");
+    })
+    .join("\n\n");
+}
+
+/* ============================
+ * CLI
+ * `bun run fills.ts [rows.jsonl]` reports the fill sessions in a JSONEachRow dump,
+ * or in the bundled sample data.
+ * ============================ */
+
+if (import.meta.main) {
+  const path = process.argv[2];
+  const tracker = createFillSessionTracker();
+
+  if (path) {
+    const rows = readJSONEachRow(Bun.file(path).stream());
+    for await (const batch of decodeUDPLogStream(rows)) {
+      batch.forEach(tracker.add);
+    }
+  } else {
+    decodeUDPLogRows(rawLogData, tracker.add);
+  }
+
+  const sessions = tracker.finish();
+  console.log(
+    sessions.length > 0
+      ? formatFillSessionReport(sessions)
+      : "No fill sessions found."
+  );
+}
@@ -0,0 +1,266 @@
+import { parseArgs } from "util";
+import { rawLogData } from "./data";
+import {
+  decodeUDPLogRows,
+  type DecodedPoint,
+  type DecodedPointSink,
+} from "./index";
+import { seriesToPoints, type ParsedLogSeries } from "./series";
+import { decodeUDPLogStream, readJSONEachRow } from "./stream";
+
+/* ============================
+ * Types
+ * ============================ */
+
+/**
+ * Which hash a device reports: the dock's "Current Hash" or the swarmbot's "Set Hash".
+ */
+export type HashSource = "dock" | "swarmbot";
+
+/**
+ * A hash value as reported, kept exact: the decimal string the decoder carries for 64-bit
+ * fields, and the same value as 16 hex digits.
+ */
+export interface HashValue {
+  hash: string; // decimal
+  hex: string; // e.g. "0x00000000deadbeef"
+}
+
+/**
+ * A device reporting a different hash than before (or its first hash).
+ */
+export interface HashChange extends HashValue {
+  source: HashSource;
+  timestamp: number; // epoch ms
+  previous: string | null; // decimal; null for the first hash seen
+}
+
+/**
+ * The swarmbot's set hash and the dock's current hash disagreeing for longer than the grace
+ * period ("mismatch"), or agreeing again after a mismatch was raised ("resolved").
+ */
+export interface HashMismatchEvent {
+  kind: "mismatch" | "resolved";
+  timestamp: number; // epoch ms the hashes started to differ, or agreed again
+  detectedAt: number; // epoch ms of the report that raised the event
+  dockHash: HashValue;
+  swarmbotHash: HashValue;
+}
+
+export interface HashTrackerOptions {
+  /** How long the hashes may differ (e.g. while a sync is under way) before a mismatch is raised. Defaults to 0, raising at once. */
+  graceMs?: number;
+}
+
+export interface HashTracker {
+  /** Feeds one decoded point; points must arrive in time order. Other messages are ignored. */
+  add: DecodedPointSink;
+  changes: () => HashChange[];
+  events: () => HashMismatchEvent[];
+}
+
+/* ============================
+ * Constants
+ * ============================ */
+
+const DEFAULT_GRACE_MS = 0;
+
+// Message carrying each source's "Hash" field
+const HASH_MESSAGE_IDS: Record<HashSource, string> = {
+  dock: "0007", // Current Hash
+  swarmbot: "0006", // Set Hash
+};
+
+/* ============================
+ * Helpers
+ * ============================ */
+
+/**
+ * Builds a HashValue from a decimal or 0x-hex hash.
+ */
+export function toHashValue(hash: string | bigint): HashValue {
+  const value = BigInt(hash);
+  return {
+    hash: value.toString(),
+    hex: `0x${value.toString(16).padStart(16, "0")}`,
+  };
+}
+
+/**
+ * The exact hash carried by a point; 64-bit fields carry it as exactValue.
+ */
+function readHash(point: DecodedPoint): string {
+  return point.exactValue ?? BigInt(Math.round(point.value)).toString();
+}
+
+/* ============================
+ * Tracker
+ * ============================ */
+
+/**
+ * Creates a tracker that follows the dock's Current Hash and the swarmbot's Set Hash, records
+ * every change, and raises a mismatch when they stay different for longer than the grace period.
+ */
+export function createHashTracker(
+  options: HashTrackerOptions = {}
+): HashTracker {
+  const { graceMs = DEFAULT_GRACE_MS } = options;
+  const current: Partial<Record<HashSource, string>> = {};
+  const changes: HashChange[] = [];
+  const events: HashMismatchEvent[] = [];
+  // Start of the current disagreement, and whether it has been raised
+  let differingSince: number | undefined;
+  let raised = false;
+
+  const compare = (timestamp: number) => {
+    const { dock, swarmbot } = current;
+    if (dock === undefined || swarmbot === undefined) return;
+    const hashes = {
+      dockHash: toHashValue(dock),
+      swarmbotHash: toHashValue(swarmbot),
+    };
+
+    if (dock === swarmbot) {
+      if (raised) {
+        events.push({
+          kind: "resolved",
+          timestamp,
+          detectedAt: timestamp,
+          ...hashes,
+        });
+      }
+      differingSince = undefined;
+      raised = false;
+      return;
+    }
+
+    differingSince ??= timestamp;
+    if (!raised && timestamp - differingSince >= graceMs) {
+      events.push({
+        kind: "mismatch",
+        timestamp: differingSince,
+        detectedAt: timestamp,
+        ...hashes,
+      });
+      raised = true;
+    }
+  };
+
+  return {
+    add(point: DecodedPoint): void {
+      const source = point.sender;
+      if (
+        (source !== "dock" && source !== "swarmbot") ||
+        point.label !== "Hash" ||
+        point.messageId !== HASH_MESSAGE_IDS[source]
+      ) {
+        return;
+      }
+
+      const hash = readHash(point);
+      const previous = current[source];
+      if (previous !== hash) {
+        changes.push({
+          source,
+          timestamp: point.timestamp,
+          ...toHashValue(hash),
+          previous: previous ?? null,
+        });
+        current[source] = hash;
+      }
+      compare(point.timestamp);
+    },
+
+    changes: () => [...changes],
+    events: () => [...events],
+  };
+}
+
+/**
+ * Tracks hashes in decoded series.
+ */
+export function trackHashes(
+  series: ParsedLogSeries[],
+  options: HashTrackerOptions = {}
+): { changes: HashChange[]; events: HashMismatchEvent[] } {
+  const tracker = createHashTracker(options);
+  seriesToPoints(series.filter((entry) => entry.label === "Hash")).forEach(
+    tracker.add
+  );
+  return { changes: tracker.changes(), events: tracker.events() };
+}
+
+/* ============================
+ * Report
+ * ============================ */
+
+/**
+ * Formats hash changes and mismatch events as one time-ordered plain-text list.
+ */
+export function formatHashReport(
+  changes: HashChange[],
+  events: HashMismatchEvent[]
+): string {
+  const lines = [
+    ...changes.map((change) => ({
+      timestamp: change.timestamp,
+      text: `${change.source} hash ${change.hex}${
+        change.previous === null
+          ? ""
+          : ` (was ${toHashValue(change.previous).hex})`
+      }`,
+    })),
+    ...events.map((event) => ({
+      timestamp: event.timestamp,
+      text:
+        event.kind === "mismatch"
+          ? `MISMATCH: swarmbot set ${event.swarmbotHash.hex}, dock has ${
+              event.dockHash.hex
+            } (detected ${new Date(event.detectedAt).toISOString()})`
+          : `resolved: both ${event.dockHash.hex}`,
+    })),
+  ];
+  return lines
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((line) => `${new Date(line.timestamp).toISOString()} ${line.text}`)
+    .join("\n");
+}
+
+/* ============================
+ * CLI
+ * `bun run hashes.ts [rows.jsonl] [--grace-ms 30000]` reports hash changes and set/current
+ * mismatches in a JSONEachRow dump (in time order), or in the bundled sample data.
+ * ============================ */
+
+if (import.meta.main) {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    allowPositionals: true,
+    options: { "grace-ms": { type: "string" } },
+  });
+  const graceMs = Number(values["grace-ms"] ?? DEFAULT_GRACE_MS);
+  if (!Number.isFinite(graceMs) || graceMs < 0) {
+    throw new Error(`Invalid --grace-ms '${values["grace-ms"]}'.`);
+  }
+  const [path] = positionals;
+  const tracker = createHashTracker({ graceMs });
+
+  if (path) {
+    const rows = readJSONEachRow(Bun.file(path).stream());
+    for await (const batch of decodeUDPLogStream(rows)) {
+      batch.forEach(tracker.add);
+    }
+  } else {
+    decodeUDPLogRows(
+      [...rawLogData].sort((a, b) => Number(a.date) - Number(b.date)),
+      tracker.add
+    );
+  }
+
+  const changes = tracker.changes();
+  console.log(
+    changes.length > 0
+      ? formatHashReport(changes, tracker.events())
+      : "No hashes found."
+  );
+}
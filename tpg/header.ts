@@ -0,0 +1,272 @@
+import { isCanRowType } from "./can";
+import {
+  getDeviceName,
+  UDP_HEADER_LENGTH,
+  type LogRowWithDateAndMessageIDAndType,
+} from "./index";
+
+/* ============================
+ * Types
+ * ============================ */
+
+/**
+ * Where a little-endian unsigned integer sits in the header.
+ */
+export interface HeaderFieldLocation {
+  offset: number;
+  size: 1 | 2 | 4;
+}
+
+/**
+ * Header bytes whose meaning depends on the firmware build. The documented header (device,
+ * source, destination and message IDs, version) has neither field, so there is no default.
+ */
+export interface UdpHeaderLayout {
+  /** Rolling per-sender packet counter. No captured firmware sends one yet. */
+  sequence?: HeaderFieldLocation;
+  /** Value that changes when the sender restarts. No captured firmware sends one yet. */
+  session?: HeaderFieldLocation;
+}
+
+/**
+ * The 16-byte header in front of every UDP payload.
+ */
+export interface UdpHeader {
+  deviceId: number; // bytes 0..1
+  deviceName: string; // "invalid" for unmapped device IDs
+  sourceId: number; // bytes 2..3, tells apart units of the same device type
+  destinationId: number; // bytes 4..5, 0xffff (broadcast) in captured logs
+  messageId: number; // bytes 6..7
+  messageIdHex: string; // e.g. "0703"
+  version: number; // byte 8, 1 in captured logs
+  reserved: number[]; // bytes 9..15, raw
+  sequence?: number; // from UdpHeaderLayout.sequence
+  session?: number; // from UdpHeaderLayout.session
+}
+
+export type LinkEventKind = "gap" | "duplicate" | "reboot";
+
+/**
+ * A link problem detected for one sender (device ID and source ID).
+ */
+export interface LinkEvent {
+  kind: LinkEventKind;
+  sender: string;
+  deviceId: number;
+  sourceId: number;
+  timestamp: number; // frame that revealed the event
+  previousTimestamp: number; // the sender's previous frame
+  /** gap only: frames missing according to the sequence counter; absent when found by silence */
+  dropped?: number;
+  detail: string;
+}
+
+export interface LinkMonitorOptions {
+  /** Where the sender's counter and session sit; `{}` when the firmware sends neither. */
+  layout: UdpHeaderLayout;
+  /** Silence from a sender longer than this is a gap. Defaults to 5000 ms; 0 disables. */
+  gapThresholdMs?: number;
+  /** Byte-identical frames from a sender within this window are duplicates. Defaults to 10 ms. */
+  duplicateWindowMs?: number;
+}
+
+export interface LinkMonitor {
+  /** Checks one row; rows must arrive in time order. Non-UDP rows are ignored. */
+  add: (row: LogRowWithDateAndMessageIDAndType) => void;
+  events: () => LinkEvent[];
+  clear: () => void;
+}
+
+/**
+ * What the monitor remembers about a sender's last frame.
+ */
+type SenderState = {
+  timestamp: number;
+  frameKey: string;
+  sequence?: number;
+  session?: number;
+};
+
+/* ============================
+ * Constants
+ * ============================ */
+
+/**
+ * Decodes only the documented header fields, without a sequence or session.
+ */
+export const DEFAULT_HEADER_LAYOUT: UdpHeaderLayout = {};
+
+const DEFAULT_GAP_THRESHOLD_MS = 5000;
+
+const DEFAULT_DUPLICATE_WINDOW_MS = 10;
+
+/* ============================
+ * Header
+ * ============================ */
+
+function readUint(
+  frame: number[],
+  { offset, size }: HeaderFieldLocation
+): number {
+  let value = 0;
+  for (let i = size - 1; i >= 0; i--) {
+    value = value * 256 + (frame[offset + i] ?? 0);
+  }
+  return value;
+}
+
+/**
+ * Decodes the header of a raw UDP frame. Returns null when the frame is shorter than the header.
+ */
+export function decodeUDPHeader(
+  frame: number[],
+  layout: UdpHeaderLayout = DEFAULT_HEADER_LAYOUT
+): UdpHeader | null {
+  if (frame.length < UDP_HEADER_LENGTH) return null;
+
+  const deviceId = readUint(frame, { offset: 0, size: 2 });
+  const messageId = readUint(frame, { offset: 6, size: 2 });
+  const header: UdpHeader = {
+    deviceId,
+    deviceName: getDeviceName(deviceId),
+    sourceId: readUint(frame, { offset: 2, size: 2 }),
+    destinationId: readUint(frame, { offset: 4, size: 2 }),
+    messageId,
+    messageIdHex: messageId.toString(16).padStart(4, "0"),
+    version: frame[8] ?? 0,
+    reserved: frame.slice(9, UDP_HEADER_LENGTH),
+  };
+  if (layout.sequence) header.sequence = readUint(frame, layout.sequence);
+  if (layout.session) header.session = readUint(frame, layout.session);
+  return header;
+}
+
+/* ============================
+ * Link analysis
+ * ============================ */
+
+/**
+ * Creates a monitor that tracks every sender's frames and reports dropped packets (sequence
+ * jumps, or silence when there is no counter), duplicated frames and reboots (session changes
+ * or a counter that runs backwards). A sender is one device ID and source ID, so units of the
+ * same device type are tracked apart.
+ * The layout is required: reboots and sequence gaps can only be found from the bytes it names,
+ * and with an empty layout only silence and identical frames are reported.
+ */
+export function createLinkMonitor(options: LinkMonitorOptions): LinkMonitor {
+  const {
+    layout,
+    gapThresholdMs = DEFAULT_GAP_THRESHOLD_MS,
+    duplicateWindowMs = DEFAULT_DUPLICATE_WINDOW_MS,
+  } = options;
+  const sequenceRange = layout.sequence ? 2 ** (8 * layout.sequence.size) : 0;
+  const senders = new Map<string, SenderState>();
+  const events: LinkEvent[] = [];
+
+  const checkSequence = (
+    header: UdpHeader,
+    last: SenderState,
+    report: (kind: LinkEventKind, detail: string, dropped?: number) => void
+  ): boolean => {
+    if (header.sequence === undefined || last.sequence === undefined) {
+      return false;
+    }
+    // Forward distance, allowing for the counter wrapping around
+    const delta =
+      (header.sequence - last.sequence + sequenceRange) % sequenceRange;
+    if (delta === 0) {
+      report("duplicate", `Sequence ${header.sequence} repeated.`);
+    } else if (delta > sequenceRange / 2) {
+      report(
+        "reboot",
+        `Sequence went back from ${last.sequence} to ${header.sequence}.`
+      );
+    } else if (delta > 1) {
+      report(
+        "gap",
+        `Sequence jumped from ${last.sequence} to ${header.sequence}.`,
+        delta - 1
+      );
+    }
+    return true;
+  };
+
+  return {
+    add(row: LogRowWithDateAndMessageIDAndType): void {
+      if (!row || !Array.isArray(row.log) || isCanRowType(row.type)) return;
+      const header = decodeUDPHeader(row.log, layout);
+      if (!header) return;
+
+      const timestamp = Number(row.date);
+      const frameKey = row.log.join(",");
+      const senderKey = `${header.deviceId}:${header.sourceId}`;
+      const last = senders.get(senderKey);
+      senders.set(senderKey, {
+        timestamp,
+        frameKey,
+        sequence: header.sequence,
+        session: header.session,
+      });
+      if (!last) return;
+
+      const report = (
+        kind: LinkEventKind,
+        detail: string,
+        dropped?: number
+      ) => {
+        const event: LinkEvent = {
+          kind,
+          sender: header.deviceName,
+          deviceId: header.deviceId,
+          sourceId: header.sourceId,
+          timestamp,
+          previousTimestamp: last.timestamp,
+          detail,
+        };
+        if (dropped !== undefined) event.dropped = dropped;
+        events.push(event);
+      };
+
+      if (
+        header.session !== undefined &&
+        last.session !== undefined &&
+        header.session !== last.session
+      ) {
+        report(
+          "reboot",
+          `Session changed from ${last.session} to ${header.session}.`
+        );
+        return;
+      }
+
+      if (checkSequence(header, last, report)) return;
+
+      const elapsed = timestamp - last.timestamp;
+      if (frameKey === last.frameKey && elapsed <= duplicateWindowMs) {
+        report("duplicate", `Identical frame ${elapsed} ms after the last.`);
+      } else if (gapThresholdMs > 0 && elapsed > gapThresholdMs) {
+        report("gap", `No frames for ${elapsed} ms.`);
+      }
+    },
+
+    events: () => [...events],
+
+    clear(): void {
+      senders.clear();
+      events.length = 0;
+    },
+  };
+}
+
+/**
+ * Runs a link monitor over rows (sorted by date first) and returns every event found.
+ */
+export function analyzeLinkHealth(
+  tableRows: LogRowWithDateAndMessageIDAndType[],
+  options: LinkMonitorOptions
+): LinkEvent[] {
+  const monitor = createLinkMonitor(options);
+  const sorted = [...tableRows].sort((a, b) => Number(a.date) - Number(b.date));
+  for (const row of sorted) monitor.add(row);
+  return monitor.events();
+}
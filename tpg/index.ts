@@ -1,5 +1,14 @@
 import { z } from "zod";
+import { decodeCANLogRow, isCanRowType, type CanConfig } from "./can";
+import type { ChangeOnlyFilter } from "./compression";
 import { rawLogData } from "./data";
+import {
+  createDiagnostics,
+  formatDiagnostics,
+  type DiagnosticLevel,
+  type DiagnosticReason,
+  type Diagnostics,
+} from "./diagnostics";
 import { udpConfig } from "./udp_config";
 
 /* ============================
@@ -8,7 +17,19 @@ import { udpConfig } from "./udp_config";
 
 // Data type options for fields
 const DataTypeSchema = z
-  .enum(["uint8_t", "uint16_t", "uint32_t", "uint64_t", "float", "bool"])
+  .enum([
+    "uint8_t",
+    "uint16_t",
+    "uint32_t",
+    "uint64_t",
+    "int8_t",
+    "int16_t",
+    "int32_t",
+    "int64_t",
+    "float",
+    "double",
+    "bool",
+  ])
   .nullable();
 
 const UdpUnitEnum = z.enum([
@@ -24,10 +45,10 @@ const UdpUnitEnum = z.enum([
   "",
 ]);
 
-type UdpUnit = z.infer<typeof UdpUnitEnum>;
-type DataType = z.infer<typeof DataTypeSchema>;
+export type UdpUnit = z.infer<typeof UdpUnitEnum>;
+export type DataType = z.infer<typeof DataTypeSchema>;
 
-type LogRowWithDateAndMessageIDAndType = {
+export type LogRowWithDateAndMessageIDAndType = {
   date: string; // epoch milliseconds
   message_id: number | null;
   log: number[];
@@ -41,12 +62,39 @@ const BitSchema = z.object({
   Num: z.number(),
 });
 
-// Dependency configuration for fields that depend on other fields
-const FieldDependencySchema = z.object({
+// Selector value a variant applies to: a raw value, or an enum label of the selector field
+const SelectorValueSchema = z.union([z.number(), z.string()]);
+
+// How a conditional field is read for some selector values; omitted settings keep the field's own
+const FieldVariantSchema = z.object({
+  // Omitted: any value, e.g. for a last fallback
+  when: z.union([SelectorValueSchema, z.array(SelectorValueSchema)]).optional(),
+  label: z.string().optional(),
+  unit: UdpUnitEnum.optional(),
+  multiplier: z.number().optional(),
+  type: DataTypeSchema.optional(),
+});
+
+// Selector read from payload bits: `num` bits (default 1) from `bit` of `byte`, little-endian
+const BitSelectorSchema = z.object({
   byte: z.number(),
   bit: z.number(),
+  num: z.number().optional(),
+  variants: z.array(FieldVariantSchema).optional(),
+});
+
+// Selector read from another field of the message, by label ("Label_BitName" for a bit)
+const FieldSelectorSchema = z.object({
+  field: z.string(),
+  variants: z.array(FieldVariantSchema).optional(),
 });
 
+// Dependency configuration for fields that depend on other fields. Without variants, a single
+// bit picks the first half of an "A | B" label when set and the second when clear. With
+// variants, the first one matching the selector value applies, and a field no variant
+// matches is absent from the frame.
+const FieldDependencySchema = z.union([BitSelectorSchema, FieldSelectorSchema]);
+
 // Enhanced Field schema that matches the actual structure in udpConfig
 const UdpFieldSchema = z.object({
   label: z.string(),
@@ -100,16 +148,20 @@ const OtherMessageSectionSchema = z.object({
 });
 
 // Complete UDP Config schema
-const UdpConfigSchema = z.object({
+export const UdpConfigSchema = z.object({
   "Dock Messages": MessageSectionSchema,
   "SwarmBot Messages": MessageSectionSchema,
   "Other Messages": OtherMessageSectionSchema,
 });
 
 export type UdpConfig = z.infer<typeof UdpConfigSchema>;
+export type UdpField = z.infer<typeof UdpFieldSchema>;
+export type FieldDependency = z.infer<typeof FieldDependencySchema>;
+export type FieldVariant = z.infer<typeof FieldVariantSchema>;
+export type UdpConfigSection = UdpConfig[keyof UdpConfig];
 
 // Union type for handling both prefix and message configurations
-type ConfigMessage =
+export type ConfigMessage =
   | z.infer<typeof PrefixEntrySchema>
   | z.infer<typeof MessageEntrySchema>;
 
@@ -119,10 +171,89 @@ type ConfigMessage =
 export interface ParsedLogMessage {
   id: string;
   label: string;
-  unit: UdpUnit;
+  unit: UdpUnit | string; // free text for CAN signals
+  messageId: string; // hex message ID (UDP) or CAN ID
   isEnum: boolean;
   series: [number, number][]; // [timestamp, value]
+  /** 64-bit integer fields only: exact raw integer (before multiplier) per `series` sample, as a decimal string */
+  exactValues?: string[];
+  /** Enum fields only: label per `series` sample, null where the value is missing from the enum map */
+  enumLabels?: (string | null)[];
+  /** Enum fields only: true when any sample's value is missing from the enum map */
+  hasUnknownEnumValue?: boolean;
+  sender: string;
+  /** Prefix messages only: instance number from the message ID's low byte (e.g. the valve or pin) */
+  instance?: number;
+}
+
+/**
+ * A single decoded field sample, emitted by the decoder before it is collected into a series.
+ */
+export interface DecodedPoint {
+  id: string;
+  label: string;
+  unit: UdpUnit | string; // free text for CAN signals
+  messageId: string; // hex message ID (UDP) or CAN ID
+  isEnum: boolean;
   sender: string;
+  timestamp: number;
+  value: number;
+  /** 64-bit integer fields only: exact raw integer (before multiplier) as a decimal string */
+  exactValue?: string;
+  /** Prefix messages only: instance number from the message ID's low byte */
+  instance?: number;
+  /** Enum fields only: resolved label, null when the value is missing from the enum map */
+  enumLabel?: string | null;
+}
+
+/**
+ * Receives decoded points as the decoder produces them.
+ */
+export type DecodedPointSink = (point: DecodedPoint) => void;
+
+/**
+ * What a config resolver knows about the row it picks a config for.
+ */
+export interface UdpConfigContext {
+  timestamp: number; // epoch milliseconds
+  deviceName: string;
+}
+
+/**
+ * Picks the UDP config for each row (e.g. by firmware version, see versions.ts).
+ */
+export interface UdpConfigResolver {
+  resolve: (context: UdpConfigContext) => UdpConfig;
+  /** Sees every point decoded from UDP rows, e.g. to track reported firmware hashes. */
+  observe?: DecodedPointSink;
+}
+
+/**
+ * A well-formed UDP frame the decoder couldn't attribute to a device or config entry.
+ */
+export interface UnknownFrame {
+  reason: "unknown_device" | "unknown_message";
+  deviceId: number;
+  sender: string; // device name, "invalid" for unmapped device IDs
+  messageId: string; // hex, e.g. "0a01"
+  timestamp: number;
+  frame: number[]; // raw bytes including the header
+}
+
+/**
+ * Options shared by every decode entry point.
+ */
+export interface DecodeOptions {
+  /** Picks the config per row. Defaults to the active config (see setUdpConfig). */
+  configResolver?: UdpConfigResolver;
+  /** Collects decode problems (see createDiagnostics). Nothing is reported when omitted. */
+  diagnostics?: Diagnostics;
+  /** Called for frames from unmapped devices or without a config entry (see inventory.ts). */
+  onUnknownFrame?: (frame: UnknownFrame) => void;
+  /** Keeps only points whose value changed (see createChangeOnlyFilter). Keeps every point when omitted. */
+  changeFilter?: ChangeOnlyFilter;
+  /** Signal config for CAN rows, validated with parseCanConfig. Defaults to the built-in canConfig. */
+  canConfig?: CanConfig;
 }
 
 /* ============================
@@ -133,7 +264,7 @@ export interface ParsedLogMessage {
  * Mapping of device names to their corresponding numerical IDs.
  * Used for looking up device names from raw message IDs.
  */
-const deviceIds: Record<string, number> = {
+export const deviceIds: Record<string, number> = {
   mainPLC: 0,
   mower: 1,
   spotSprayer: 2,
@@ -159,16 +290,23 @@ for (const key in deviceIds) {
   }
 }
 
+/**
+ * Looks up the device name for a header device ID; "invalid" when it isn't mapped.
+ */
+export function getDeviceName(deviceId: number): string {
+  return deviceIdToNameMap[deviceId] || "invalid";
+}
+
 /* ============================
  * Constants & Shared Buffers
  * ============================ */
 
-const UDP_HEADER_LENGTH = 16;
+export const UDP_HEADER_LENGTH = 16;
 
 /**
  * Maximum expected UDP message length. Adjust based on actual maximum possible size.
  */
-const MAX_UDP_MESSAGE_LENGTH = 2048;
+export const MAX_UDP_MESSAGE_LENGTH = 2048;
 
 /**
  * Shared ArrayBuffer, Uint8Array, and DataView instances to avoid repeated memory allocations.
@@ -177,6 +315,26 @@ const sharedBuffer = new ArrayBuffer(MAX_UDP_MESSAGE_LENGTH);
 const sharedUint8View = new Uint8Array(sharedBuffer);
 const sharedDataView = new DataView(sharedBuffer);
 
+/**
+ * Config the decoder currently uses. Starts as the built-in `udpConfig` and can be
+ * hot-swapped at runtime (see setUdpConfig / config.ts).
+ */
+let activeUdpConfig: UdpConfig = udpConfig;
+
+/**
+ * Replaces the config used by the decoder for all subsequent rows.
+ */
+export function setUdpConfig(config: UdpConfig): void {
+  activeUdpConfig = config;
+}
+
+/**
+ * Returns the config the decoder currently uses.
+ */
+export function getUdpConfig(): UdpConfig {
+  return activeUdpConfig;
+}
+
 /* ============================
  * Helpers
  * ============================ */
@@ -204,23 +362,237 @@ function getMessageIdHex(view: DataView): string {
 }
 
 /**
- * Reads a single dependency bit (payload-relative) with bounds checking.
- * Payload bytes are indexed from 0; absolute offset adds UDP_HEADER_LENGTH.
+ * Picks the config section that describes messages sent by the given device.
  */
-function getDependentBit(
+export function getConfigSectionForDevice(
+  config: UdpConfig,
+  deviceName: string
+): UdpConfigSection {
+  return config[
+    deviceName === "dock"
+      ? "Dock Messages"
+      : deviceName === "swarmbot"
+      ? "SwarmBot Messages"
+      : "Other Messages"
+  ];
+}
+
+/**
+ * Resolves the config entry for a full (little-endian) message ID.
+ * A prefix match on the high byte (as decimal string, e.g. "7", "16") wins over
+ * a direct `Messages` match on the full ID in decimal.
+ */
+export function resolveConfigMessage(
+  configSection: UdpConfigSection,
+  messageIdLE: number
+): { configMessage: ConfigMessage | undefined; isPrefix: boolean } {
+  const prefixConfig =
+    configSection.Prefixes[((messageIdLE >> 8) & 0xff).toString()];
+  if (prefixConfig) {
+    return { configMessage: prefixConfig, isPrefix: true };
+  }
+  return {
+    configMessage: configSection.Messages[String(messageIdLE)],
+    isPrefix: false,
+  };
+}
+
+/**
+ * Names a field of one prefix-message instance, e.g. "Valve 2 / Fill Type".
+ */
+export function formatInstanceLabel(
+  prefixDescription: string,
+  instance: number,
+  label: string
+): string {
+  return `${prefixDescription} ${instance} / ${label}`;
+}
+
+/**
+ * The config label of a point, without the instance prefix added by formatInstanceLabel.
+ */
+export function getFieldLabel(
+  point: Pick<DecodedPoint, "label" | "instance">
+): string {
+  if (point.instance === undefined) return point.label;
+  const separator = point.label.indexOf(" / ");
+  return separator === -1 ? point.label : point.label.slice(separator + 3);
+}
+
+/**
+ * Looks up the enum label for a decoded value; null when the map doesn't know it.
+ */
+function resolveEnumLabel(
+  enumMap: Record<string, string>,
+  value: number
+): string | null {
+  return enumMap[String(value)] ?? null;
+}
+
+/**
+ * A selector's value and, when it names an enum field, the value's enum label.
+ */
+export interface SelectorReading {
+  value: number;
+  enumLabel: string | null;
+}
+
+/**
+ * Payload bytes a bit selector reads: enough to hold its `num` bits from `bit` of `byte`.
+ */
+export function getSelectorBytes(selector: {
+  byte: number;
+  bit: number;
+  num?: number;
+}): number[] {
+  const byteCount = Math.ceil((selector.bit + (selector.num ?? 1)) / 8);
+  return Array.from({ length: byteCount }, (_, i) => selector.byte + i);
+}
+
+/**
+ * Finds the field a field selector names: a field by label, or one bit of a bit field by
+ * "Label_BitName".
+ */
+export function findSelectorField(
+  fields: UdpField[],
+  name: string
+): { field: UdpField; bit?: { Start: number; Num: number } } | null {
+  for (const field of fields) {
+    if (field.use_bits === 1 && field.bits) {
+      const bit = field.bits.find((b) => `${field.label}_${b.Name}` === name);
+      if (bit) return { field, bit };
+    } else if (field.label === name) {
+      return { field };
+    }
+  }
+  return null;
+}
+
+/**
+ * Reads a dependency's selector (payload-relative) with bounds checking: its payload bits, or
+ * the raw value (before multiplier) of the field it names. Null when the selector can't be
+ * read from this frame.
+ */
+function readSelector(
   view: DataView,
   rawMessageLength: number,
-  dep: { byte: number; bit: number }
-): number | null {
-  const abs = UDP_HEADER_LENGTH + dep.byte;
-  if (abs >= rawMessageLength || dep.bit < 0 || dep.bit > 7) return null;
-  const b = view.getUint8(abs);
-  return (b >> dep.bit) & 0b1;
+  dependency: FieldDependency,
+  fields: UdpField[]
+): SelectorReading | null {
+  if (!("field" in dependency)) {
+    const { bit, num = 1 } = dependency;
+    const bytes = getSelectorBytes(dependency);
+    if (
+      bit < 0 ||
+      num < 1 ||
+      bytes.length > 4 ||
+      bytes.some((byte) => UDP_HEADER_LENGTH + byte >= rawMessageLength)
+    ) {
+      return null;
+    }
+    let combined = 0;
+    bytes.forEach((byte, i) => {
+      combined |= view.getUint8(UDP_HEADER_LENGTH + byte) << (8 * i);
+    });
+    return { value: getBits(combined, bit, num), enumLabel: null };
+  }
+
+  const selector = findSelectorField(fields, dependency.field);
+  if (!selector || selector.field.dependent_on) return null;
+  const { field, bit } = selector;
+  const absByteOffsets = field.bytes.map((idx) => UDP_HEADER_LENGTH + idx);
+  if (
+    absByteOffsets.length === 0 ||
+    absByteOffsets.some((offset) => offset >= rawMessageLength)
+  ) {
+    return null;
+  }
+
+  if (bit) {
+    let combined = 0;
+    absByteOffsets.forEach((offset, i) => {
+      combined |= view.getUint8(offset) << (8 * i);
+    });
+    return { value: getBits(combined, bit.Start, bit.Num), enumLabel: null };
+  }
+  if (!field.type) return null;
+  const value = getNumericValueFromBytes(view, absByteOffsets, field.type);
+  return {
+    value,
+    enumLabel:
+      field.use_enum === 1 && field.enum
+        ? resolveEnumLabel(field.enum, value)
+        : null,
+  };
+}
+
+/**
+ * The variants of a conditional field, in the order they are tried. The single-bit
+ * "A | B" form becomes two variants; fields without a dependency have none.
+ */
+export function getFieldVariants(field: UdpField): FieldVariant[] {
+  const { dependent_on } = field;
+  if (!dependent_on) return [];
+  if (dependent_on.variants) return dependent_on.variants;
+  const parts = field.label.split(" | ");
+  if ("field" in dependent_on || parts.length !== 2) return [];
+  return [
+    { when: 1, label: parts[0] ?? "" },
+    { when: 0, label: parts[1] ?? "" },
+  ];
+}
+
+/**
+ * The selector values and enum labels a variant's `when` lists; null when it matches any value.
+ */
+export function getVariantSelectorValues(
+  variant: FieldVariant
+): (number | string)[] | null {
+  if (variant.when === undefined) return null;
+  return Array.isArray(variant.when) ? variant.when : [variant.when];
+}
+
+/**
+ * Picks the first variant whose `when` lists the selector's value or enum label (or that has
+ * no `when`); null when none does.
+ */
+export function matchFieldVariant(
+  variants: FieldVariant[],
+  reading: SelectorReading
+): FieldVariant | null {
+  return (
+    variants.find((variant) => {
+      const when = getVariantSelectorValues(variant);
+      if (when === null) return true;
+      return when.some((entry) =>
+        typeof entry === "number"
+          ? entry === reading.value
+          : entry === reading.enumLabel
+      );
+    }) ?? null
+  );
+}
+
+/**
+ * Reads a 64-bit integer losslessly as a BigInt, assembling the absolute byte offsets little-endian.
+ */
+function getBigIntValueFromBytes(
+  dataView: DataView,
+  absByteOffsets: number[],
+  signed: boolean
+): bigint {
+  let value = 0n;
+  const byteCount = Math.min(absByteOffsets.length, 8);
+  for (let i = 0; i < byteCount; i++) {
+    value |= BigInt(dataView.getUint8(absByteOffsets[i] ?? 0)) << BigInt(8 * i);
+  }
+  return signed ? BigInt.asIntN(8 * byteCount, value) : value;
 }
 
 /**
  * Parses a numeric value from the DataView based on absolute byte offsets and data type.
- * Note: uint64_t may overflow JS Number for large values; left as-is for now.
+ * Values are rounded to 3 decimals, except doubles, which keep their full precision.
+ * 64-bit integers are converted to the nearest Number; use getBigIntValueFromBytes for the exact value.
  */
 function getNumericValueFromBytes(
   dataView: DataView,
@@ -234,21 +606,37 @@ function getNumericValueFromBytes(
     case "uint8_t":
       return Math.round(dataView.getUint8(firstByteAbsOffset) * 1000) / 1000;
 
+    case "int8_t":
+      return Math.round(dataView.getInt8(firstByteAbsOffset) * 1000) / 1000;
+
     case "uint16_t":
       return (
         Math.round(dataView.getUint16(firstByteAbsOffset, true) * 1000) / 1000
       );
 
+    case "int16_t":
+      return (
+        Math.round(dataView.getInt16(firstByteAbsOffset, true) * 1000) / 1000
+      );
+
     case "uint32_t":
       return (
         Math.round(dataView.getUint32(firstByteAbsOffset, true) * 1000) / 1000
       );
 
+    case "int32_t":
+      return (
+        Math.round(dataView.getInt32(firstByteAbsOffset, true) * 1000) / 1000
+      );
+
     case "float":
       return (
         Math.round(dataView.getFloat32(firstByteAbsOffset, true) * 1000) / 1000
       );
 
+    case "double":
+      return dataView.getFloat64(firstByteAbsOffset, true);
+
     case "bool":
       return (
         Math.round(
@@ -257,10 +645,10 @@ function getNumericValueFromBytes(
       );
 
     case "uint64_t":
-      for (let i = 0; i < absByteOffsets.length && i < 8; i++) {
-        value |= (dataView.getUint8(absByteOffsets[i] ?? 0) ?? 0) << (8 * i);
-      }
-      return Math.round(value * 1000) / 1000;
+      return Number(getBigIntValueFromBytes(dataView, absByteOffsets, false));
+
+    case "int64_t":
+      return Number(getBigIntValueFromBytes(dataView, absByteOffsets, true));
 
     case null:
       throw new Error("DataType cannot be null");
@@ -275,94 +663,192 @@ function getNumericValueFromBytes(
 
 /**
  * Parses individual fields from a raw UDP message based on configuration.
- * This version supports `dependent_on` to dynamically pick label via "Decoded | Voltage" convention.
+ * Fields with `dependent_on` take their label, unit, multiplier and type from the variant their
+ * selector picks, or are skipped when no variant matches (see FieldDependencySchema).
+ * Problems (out-of-bounds offsets, unresolvable labels, ...) are reported to `diagnostics`.
  */
 function parseFieldsFromConfig(
   dataView: DataView,
   rawMessageLength: number,
   fieldConfigs: z.infer<typeof UdpFieldSchema>[],
   messageTimestamp: number,
-  outArray: ParsedLogMessage[],
+  emit: DecodedPointSink,
   messageIdStr: string,
   deviceName: string,
-  messageIdHex: string
+  messageIdHex: string,
+  prefixInstance: { description: string; instance: number } | undefined,
+  diagnostics?: Diagnostics
 ): void {
+  // Prefix messages name every series after their instance, e.g. "Valve 2 / Fill Type"
+  const nameLabel = (fieldLabel: string) =>
+    prefixInstance
+      ? formatInstanceLabel(
+          prefixInstance.description,
+          prefixInstance.instance,
+          fieldLabel
+        )
+      : fieldLabel;
+
   for (const fieldConfig of fieldConfigs) {
     const {
       label,
       bytes,
-      type,
-      unit,
       enum: enumMap,
       bits,
       use_enum,
       use_bits,
-      multiplier,
       dependent_on,
     } = fieldConfig;
+    // A conditional field's variant may replace these
+    let { type, unit, multiplier } = fieldConfig;
+
+    // Detail strings are only built when the level is kept
+    const report = (
+      level: DiagnosticLevel,
+      reason: DiagnosticReason,
+      detail: () => string,
+      offsets?: number[]
+    ) => {
+      if (!diagnostics?.enabled(level)) return;
+      diagnostics.report({
+        level,
+        reason,
+        sender: deviceName,
+        messageId: messageIdHex,
+        field: label,
+        timestamp: messageTimestamp,
+        messageLength: rawMessageLength,
+        offsets,
+        detail: detail(),
+      });
+    };
 
     try {
-      // ---- NEW: Resolve label from dependency bit if present ----
+      // ---- Resolve the variant picked by the dependency's selector ----
       let finalLabel = label;
       if (dependent_on) {
-        const bit = getDependentBit(dataView, rawMessageLength, dependent_on);
-        if (bit !== null) {
-          // Expect labels like "Decoded | Voltage"
-          const parts = label.split(" | ");
-          if (parts.length === 2) {
-            finalLabel = bit ? parts[0] ?? "" : parts[1] ?? "";
-            console.debug(
-              `Resolved label for field '${label}' to '${finalLabel}' based on dependent bit.`
-            );
-          } else {
-            console.warn(
+        const variants = getFieldVariants(fieldConfig);
+        const reading = readSelector(
+          dataView,
+          rawMessageLength,
+          dependent_on,
+          fieldConfigs
+        );
+        const selectorName =
+          "field" in dependent_on
+            ? `field '${dependent_on.field}'`
+            : `byte ${dependent_on.byte} bit ${dependent_on.bit}`;
+        const selectorOffsets =
+          "field" in dependent_on
+            ? undefined
+            : getSelectorBytes(dependent_on).map(
+                (idx) => UDP_HEADER_LENGTH + idx
+              );
+
+        if (variants.length === 0) {
+          report(
+            "warn",
+            "unresolved_dependent_label",
+            () =>
               `Dependent label '${label}' does not follow 'PartA | PartB' convention. Skipping dynamic label resolution.`
+          );
+        } else if (reading === null) {
+          // The "A | B" form keeps its whole label; explicit variants can't be told apart
+          const keep = !dependent_on.variants;
+          report(
+            "warn",
+            "unresolved_dependent_label",
+            () =>
+              `Dependency ${selectorName} can't be read from the ${rawMessageLength}-byte message; ${
+                keep ? `keeping label '${label}'` : "skipping field"
+              }.`,
+            selectorOffsets
+          );
+          if (!keep) continue;
+        } else {
+          const variant = matchFieldVariant(variants, reading);
+          if (!variant) {
+            report(
+              "debug",
+              "dependent_field_absent",
+              () =>
+                `No variant of field '${label}' matches ${selectorName} value ${reading.value}; the field is absent.`
             );
+            continue;
           }
+          finalLabel = variant.label ?? label;
+          type = variant.type !== undefined ? variant.type : type;
+          unit = variant.unit ?? unit;
+          multiplier = variant.multiplier ?? multiplier;
+          report(
+            "debug",
+            "dependent_label_resolved",
+            () =>
+              `Resolved field '${label}' to '${finalLabel}' based on ${selectorName} value ${reading.value}.`
+          );
         }
       }
 
       if (use_bits === 1 && bits && bytes && Array.isArray(bytes)) {
         // --- Bit Field Parsing ---
+        const absByteOffsets = bytes.map(
+          (idx: number) => UDP_HEADER_LENGTH + idx
+        );
+        if (absByteOffsets.some((offset) => offset >= rawMessageLength)) {
+          report(
+            "warn",
+            "out_of_bounds",
+            () =>
+              `Bit field bytes [${bytes.join(
+                ", "
+              )}] are out of bounds for message length ${rawMessageLength}. Skipping field.`,
+            absByteOffsets
+          );
+          continue;
+        }
+
         let combinedValue = 0;
         for (let i = 0; i < bytes.length; i++) {
           const byteOffset = bytes[i];
           if (byteOffset === undefined) {
-            console.warn(
-              `Invalid byte offset encountered in bit field configuration for label '${label}'. Skipping.`
+            report(
+              "warn",
+              "invalid_byte_offset",
+              () =>
+                `Invalid byte offset encountered in bit field configuration for label '${label}'. Skipping.`
             );
             continue;
           }
-          const bitFieldOffset = UDP_HEADER_LENGTH + byteOffset;
-          if (bitFieldOffset >= rawMessageLength) {
-            console.warn(
-              `Bit field offset ${bitFieldOffset} for label '${label}' is out of bounds (message length ${rawMessageLength}). Skipping.`
-            );
-            throw new Error("Out of bounds"); // Throw to catch block
-          }
-          combinedValue |= dataView.getUint8(bitFieldOffset) << (8 * i);
+          combinedValue |=
+            dataView.getUint8(UDP_HEADER_LENGTH + byteOffset) << (8 * i);
         }
 
         for (const bitConfig of bits) {
           let bitValue = getBits(combinedValue, bitConfig.Start, bitConfig.Num);
           if (multiplier !== undefined && multiplier !== 1.0) {
             bitValue *= multiplier;
-            console.debug(
-              `Applied multiplier ${multiplier} to bit field value for '${bitConfig.Name}'.`
+            report(
+              "debug",
+              "multiplier_applied",
+              () =>
+                `Applied multiplier ${multiplier} to bit field value for '${bitConfig.Name}'.`
             );
           }
 
-          outArray.push({
-            label: `${messageIdStr}_${finalLabel}_${bitConfig.Name}`,
+          const bitPoint: DecodedPoint = {
+            label: prefixInstance
+              ? nameLabel(`${finalLabel}_${bitConfig.Name}`)
+              : `${messageIdStr}_${finalLabel}_${bitConfig.Name}`,
             unit: unit || "",
             isEnum: false,
-            series: [[messageTimestamp, bitValue]],
+            timestamp: messageTimestamp,
+            value: bitValue,
             id: `${deviceName}_${messageIdHex}_${finalLabel}_${bitConfig.Name}`,
+            messageId: messageIdHex,
             sender: deviceName,
-          });
-          console.debug(
-            `Parsed bit field: ${messageIdStr}_${finalLabel}_${bitConfig.Name} = ${bitValue}`
-          );
+          };
+          if (prefixInstance) bitPoint.instance = prefixInstance.instance;
+          emit(bitPoint);
         }
       } else if (type && bytes && Array.isArray(bytes)) {
         // --- Standard Field Parsing ---
@@ -371,8 +857,11 @@ function parseFieldsFromConfig(
         );
 
         if (bytes.length === 0) {
-          console.warn(
-            `Field '${label}' has no bytes configured. Skipping standard field parsing.`
+          report(
+            "warn",
+            "empty_bytes",
+            () =>
+              `Field '${label}' has no bytes configured. Skipping standard field parsing.`
           );
           continue;
         }
@@ -381,12 +870,16 @@ function parseFieldsFromConfig(
           (absByteOffsets[0] ?? 0) + bytes.length > rawMessageLength ||
           absByteOffsets.some((offset) => offset >= rawMessageLength)
         ) {
-          console.warn(
-            `Field '${label}' bytes [${bytes.join(
-              ", "
-            )}] (absolute offsets [${absByteOffsets.join(
-              ", "
-            )}]) are out-of-bounds for message length ${rawMessageLength}. Skipping field.`
+          report(
+            "warn",
+            "out_of_bounds",
+            () =>
+              `Field '${label}' bytes [${bytes.join(
+                ", "
+              )}] (absolute offsets [${absByteOffsets.join(
+                ", "
+              )}]) are out-of-bounds for message length ${rawMessageLength}. Skipping field.`,
+            absByteOffsets
           );
           continue; // out-of-bounds; skip
         }
@@ -394,116 +887,238 @@ function parseFieldsFromConfig(
         let value = getNumericValueFromBytes(dataView, absByteOffsets, type);
         if (multiplier !== undefined && multiplier !== 1.0) {
           value *= multiplier;
-          console.debug(
-            `Applied multiplier ${multiplier} to standard field value for '${finalLabel}'.`
+          report(
+            "debug",
+            "multiplier_applied",
+            () =>
+              `Applied multiplier ${multiplier} to standard field value for '${finalLabel}'.`
           );
         }
 
-        outArray.push({
-          label: `${finalLabel}`,
+        const point: DecodedPoint = {
+          label: nameLabel(finalLabel),
           unit: unit || "",
           isEnum: !!(use_enum === 1 && enumMap),
-          series: [[messageTimestamp, value]],
+          timestamp: messageTimestamp,
+          value,
           id: `${deviceName}_${messageIdHex}_${finalLabel}`,
+          messageId: messageIdHex,
           sender: deviceName,
-        });
-        console.debug(
-          `Parsed standard field: ${finalLabel} = ${value} (type: ${type})`
-        );
+        };
+        if (prefixInstance) point.instance = prefixInstance.instance;
+        if (type === "uint64_t" || type === "int64_t") {
+          point.exactValue = getBigIntValueFromBytes(
+            dataView,
+            absByteOffsets,
+            type === "int64_t"
+          ).toString();
+        }
+        if (point.isEnum && enumMap) {
+          point.enumLabel = resolveEnumLabel(enumMap, value);
+        }
+        emit(point);
       } else {
         // Fields with no numeric type (e.g., purely-enum/meta) are ignored here by design.
-        console.debug(
-          `Field '${label}' skipped: No valid 'use_bits' or 'type' configuration found for numeric parsing.`
+        report(
+          "debug",
+          "field_skipped",
+          () =>
+            `Field '${label}' skipped: No valid 'use_bits' or 'type' configuration found for numeric parsing.`
         );
       }
     } catch (error) {
-      // Ignore parsing errors for individual fields (but log for diagnostics)
-      // eslint-disable-next-line no-console
-      console.error(
-        `Error parsing field '${label}' for message '${messageIdStr}' (Device: ${deviceName}, ID: ${messageIdHex}):`,
-        error
+      // Ignore parsing errors for individual fields (but report for diagnostics)
+      report(
+        "error",
+        "field_error",
+        () =>
+          `Error parsing field '${label}' for message '${messageIdStr}': ${
+            error instanceof Error ? error.message : String(error)
+          }`
       );
     }
   }
 }
 
 /**
- * Transforms rows of raw UDP logs into a flat array of time series datapoints.
+ * Decodes a single raw UDP log row, emitting one point per field (or bit) it carries.
+ * Rows that are too short/long or don't match a config entry emit nothing.
  */
-export function transformUDPLogToTimeSeries(
-  tableRows: LogRowWithDateAndMessageIDAndType[]
-): ParsedLogMessage[] {
-  if (!tableRows || !Array.isArray(tableRows)) return [];
-
-  const tempFieldsForMessage: ParsedLogMessage[] = [];
+export function decodeUDPLogRow(
+  row: LogRowWithDateAndMessageIDAndType,
+  emit: DecodedPointSink,
+  options: DecodeOptions = {}
+): void {
+  if (!row || !Array.isArray(row.log)) return;
+
+  const { log: rawMessage, date: messageTimestamp } = row;
+  const currentMessageLength = rawMessage.length;
+
+  if (
+    currentMessageLength > MAX_UDP_MESSAGE_LENGTH ||
+    currentMessageLength < UDP_HEADER_LENGTH
+  ) {
+    if (options.diagnostics?.enabled("warn")) {
+      options.diagnostics.report({
+        level: "warn",
+        reason: "frame_length",
+        sender: getDeviceName(
+          (rawMessage[0] ?? 0) | ((rawMessage[1] ?? 0) << 8)
+        ),
+        messageId: "",
+        timestamp: Number(messageTimestamp),
+        messageLength: currentMessageLength,
+        detail: `Frame length ${currentMessageLength} is outside ${UDP_HEADER_LENGTH}..${MAX_UDP_MESSAGE_LENGTH} bytes. Skipping frame.`,
+      });
+    }
+    return;
+  }
 
-  for (let i = 0; i < tableRows.length; i++) {
-    const row = tableRows[i];
-    if (!row || !Array.isArray(row.log)) continue;
+  // Copy payload into shared buffer
+  sharedUint8View.set(rawMessage);
 
-    const { log: rawMessage, date: messageTimestamp } = row;
-    const currentMessageLength = rawMessage.length;
+  // Message ID (little-endian u16) lives at bytes 6..7
+  const messageIdLE = sharedDataView.getUint16(6, true);
 
-    if (
-      currentMessageLength > MAX_UDP_MESSAGE_LENGTH ||
-      currentMessageLength < UDP_HEADER_LENGTH
-    ) {
-      continue;
-    }
+  // Device ID (little-endian u16) lives at bytes 0..1
+  const deviceId = sharedDataView.getUint16(0, true);
+  const deviceName = getDeviceName(deviceId);
 
-    // Copy payload into shared buffer
-    sharedUint8View.set(rawMessage);
-
-    // Message ID (little-endian u16) lives at bytes 6..7
-    const messageIdLE = sharedDataView.getUint16(6, true);
-    const messageIdHighByte = (messageIdLE >> 8) & 0xff;
-    const prefixStr = messageIdHighByte.toString();
-
-    // Device ID (little-endian u16) lives at bytes 0..1
-    const deviceId = sharedDataView.getUint16(0, true);
-    const deviceName = deviceIdToNameMap[deviceId] || "invalid";
-
-    const messageIdHex = getMessageIdHex(sharedDataView);
-
-    // Pick section by device
-    const configSection = (udpConfig as UdpConfig)[
-      deviceName === "dock"
-        ? "Dock Messages"
-        : deviceName === "swarmbot"
-        ? "SwarmBot Messages"
-        : "Other Messages"
-    ];
-
-    // 1) Prefer prefix match based on high byte (as decimal string), e.g., "7", "16", etc.
-    const prefixConfig = configSection.Prefixes[prefixStr];
-
-    // 2) Fallback to direct message ID match in decimal (little-endian full ID)
-    let configMessage: ConfigMessage | undefined;
-    let messageIdStr: string;
-
-    if (prefixConfig) {
-      configMessage = prefixConfig;
-      messageIdStr = `${deviceName}:${messageIdHex}`;
-    } else {
-      const messageIdDecStr = String(messageIdLE);
-      configMessage = configSection.Messages[messageIdDecStr];
-      messageIdStr = `${messageIdDecStr}`;
-    }
+  const messageIdHex = getMessageIdHex(sharedDataView);
 
-    if (configMessage) {
-      parseFieldsFromConfig(
-        sharedDataView,
-        currentMessageLength,
-        configMessage.Fields,
-        Number(messageTimestamp),
-        tempFieldsForMessage,
-        messageIdStr,
+  // Pick config by row (firmware version), then section by device
+  const { configResolver } = options;
+  const config = configResolver
+    ? configResolver.resolve({
+        timestamp: Number(messageTimestamp),
         deviceName,
-        messageIdHex
-      );
-    }
+      })
+    : activeUdpConfig;
+  const configSection = getConfigSectionForDevice(config, deviceName);
+
+  // Prefer prefix match on the high byte, fall back to the full message ID
+  const { configMessage, isPrefix } = resolveConfigMessage(
+    configSection,
+    messageIdLE
+  );
+  const messageIdStr = isPrefix
+    ? `${deviceName}:${messageIdHex}`
+    : String(messageIdLE);
+
+  if (options.onUnknownFrame && (!configMessage || deviceName === "invalid")) {
+    options.onUnknownFrame({
+      reason: deviceName === "invalid" ? "unknown_device" : "unknown_message",
+      deviceId,
+      sender: deviceName,
+      messageId: messageIdHex,
+      timestamp: Number(messageTimestamp),
+      frame: rawMessage,
+    });
+  }
+
+  if (configMessage) {
+    const observe = configResolver?.observe;
+    parseFieldsFromConfig(
+      sharedDataView,
+      currentMessageLength,
+      configMessage.Fields,
+      Number(messageTimestamp),
+      observe
+        ? (point) => {
+            observe(point);
+            emit(point);
+          }
+        : emit,
+      messageIdStr,
+      deviceName,
+      messageIdHex,
+      isPrefix && "prefix_description" in configMessage
+        ? {
+            description: configMessage.prefix_description,
+            instance: messageIdLE & 0xff,
+          }
+        : undefined,
+      options.diagnostics
+    );
   }
+}
+
+/**
+ * Decodes a single log row, dispatching on `row.type`: CAN rows (`sb_can0`/`sb_can1`)
+ * go through the CAN signal config, everything else is treated as a `dnr_udp` frame.
+ */
+export function decodeLogRow(
+  row: LogRowWithDateAndMessageIDAndType,
+  emit: DecodedPointSink,
+  options: DecodeOptions = {}
+): void {
+  const { changeFilter } = options;
+  const sink: DecodedPointSink = changeFilter
+    ? (point) => {
+        if (changeFilter.accept(point)) emit(point);
+      }
+    : emit;
+
+  if (row && isCanRowType(row.type)) {
+    decodeCANLogRow(row, sink, options.canConfig);
+  } else {
+    decodeUDPLogRow(row, sink, options);
+  }
+}
+
+/**
+ * Decodes rows of raw UDP (and CAN) logs, emitting every decoded point to `emit` in row order.
+ */
+export function decodeUDPLogRows(
+  tableRows: LogRowWithDateAndMessageIDAndType[],
+  emit: DecodedPointSink,
+  options: DecodeOptions = {}
+): void {
+  if (!tableRows || !Array.isArray(tableRows)) return;
+
+  for (let i = 0; i < tableRows.length; i++) {
+    const row = tableRows[i];
+    if (row) decodeLogRow(row, emit, options);
+  }
+}
 
+/**
+ * Wraps a decoded point as a ParsedLogMessage with a one-element series.
+ */
+export function toParsedLogMessage(point: DecodedPoint): ParsedLogMessage {
+  const parsed: ParsedLogMessage = {
+    label: point.label,
+    unit: point.unit,
+    isEnum: point.isEnum,
+    series: [[point.timestamp, point.value]],
+    id: point.id,
+    messageId: point.messageId,
+    sender: point.sender,
+  };
+  if (point.instance !== undefined) parsed.instance = point.instance;
+  if (point.exactValue !== undefined) {
+    parsed.exactValues = [point.exactValue];
+  }
+  if (point.enumLabel !== undefined) {
+    parsed.enumLabels = [point.enumLabel];
+    parsed.hasUnknownEnumValue = point.enumLabel === null;
+  }
+  return parsed;
+}
+
+/**
+ * Transforms rows of raw UDP logs into a flat array of time series datapoints.
+ */
+export function transformUDPLogToTimeSeries(
+  tableRows: LogRowWithDateAndMessageIDAndType[],
+  options: DecodeOptions = {}
+): ParsedLogMessage[] {
+  const tempFieldsForMessage: ParsedLogMessage[] = [];
+  decodeUDPLogRows(
+    tableRows,
+    (point) => tempFieldsForMessage.push(toParsedLogMessage(point)),
+    options
+  );
   return tempFieldsForMessage;
 }
 
@@ -514,7 +1129,7 @@ export function transformUDPLogToTimeSeries(
 
  * ============================ */
 
-type Response = {
+export type UDPLogResponse = {
   parsed: ParsedLogMessage[];
   unique_messages: {
     id: string;
@@ -525,11 +1140,12 @@ type Response = {
   }[];
 };
 
-function parseUDPLogToResponse(
-  tableRows: LogRowWithDateAndMessageIDAndType[]
-): Response {
-  const parsed = transformUDPLogToTimeSeries(tableRows);
-
+/**
+ * Builds the response for already-parsed messages, e.g. after filtering them.
+ */
+export function buildUDPLogResponse(
+  parsed: ParsedLogMessage[]
+): UDPLogResponse {
   // Use a Map for O(1) lookups - key is messageId, value is {sender, fields Set}
   const uniqueMessagesMap = new Map<
     string,
@@ -538,24 +1154,19 @@ function parseUDPLogToResponse(
 
   // Single pass through parsed messages - O(n) time complexity
   for (const message of parsed) {
-    // Extract the base message ID (without the field label suffix)
-    // The ID format is like: "dock_0703_Decoded" or "swarmbot_1001_Fill Type"
-    const parts = message.id.split("_");
-    if (parts.length >= 2) {
-      // Reconstruct the message ID without the field label
-      const messageId = `${parts[0]}_${parts[1]}`;
-
-      // O(1) Map operations
-      if (!uniqueMessagesMap.has(messageId)) {
-        uniqueMessagesMap.set(messageId, {
-          sender: message.sender,
-          fields: new Set<string>(),
-        });
-      }
-
-      // O(1) Set add operation
-      uniqueMessagesMap.get(messageId)?.fields.add(message.label);
+    // The base message ID is the sender plus the message ID, e.g. "dock_0703" or "sb_can0_18ff50e5"
+    const messageId = `${message.sender}_${message.messageId}`;
+
+    // O(1) Map operations
+    if (!uniqueMessagesMap.has(messageId)) {
+      uniqueMessagesMap.set(messageId, {
+        sender: message.sender,
+        fields: new Set<string>(),
+      });
     }
+
+    // O(1) Set add operation
+    uniqueMessagesMap.get(messageId)?.fields.add(message.label);
   }
 
   // Convert map to array - O(m) where m is number of unique messages (m << n)
@@ -573,8 +1184,24 @@ function parseUDPLogToResponse(
   };
 }
 
-const response = parseUDPLogToResponse(rawLogData);
+/**
+ * Decodes raw log rows into the response shape: every parsed field plus the unique messages seen.
+ */
+export function parseUDPLogToResponse(
+  tableRows: LogRowWithDateAndMessageIDAndType[],
+  options: DecodeOptions = {}
+): UDPLogResponse {
+  return buildUDPLogResponse(transformUDPLogToTimeSeries(tableRows, options));
+}
 
-console.log(response);
+if (import.meta.main) {
+  const diagnostics = createDiagnostics();
+  const response = parseUDPLogToResponse(rawLogData, { diagnostics });
 
-console.log(JSON.stringify(response.unique_messages, null, 2));
+  console.log(response);
+
+  console.log(JSON.stringify(response.unique_messages, null, 2));
+
+  const entries = diagnostics.entries();
+  if (entries.length > 0) console.warn(formatDiagnostics(entries));
+}
@@ -0,0 +1,190 @@
+import { rawLogData } from "./data";
+import {
+  decodeUDPLogRows,
+  UDP_HEADER_LENGTH,
+  type DecodeOptions,
+  type LogRowWithDateAndMessageIDAndType,
+  type UnknownFrame,
+} from "./index";
+import { decodeUDPLogStream, readJSONEachRow } from "./stream";
+
+/* ============================
+ * Types
+ * ============================ */
+
+/**
+ * Every undecoded frame seen for one device ID and message ID.
+ */
+export interface UnknownMessageEntry {
+  reason: UnknownFrame["reason"];
+  deviceId: number;
+  sender: string;
+  messageId: string; // hex
+  count: number;
+  firstTimestamp: number;
+  lastTimestamp: number;
+  payloadLengths: number[]; // distinct, ascending
+  samples: string[]; // distinct hex dumps of whole frames, e.g. "01 01 91 f5 ..."
+}
+
+export interface UnknownMessageInventory {
+  /** Records one frame; pass as DecodeOptions.onUnknownFrame. */
+  add: (frame: UnknownFrame) => void;
+  /** Entries ordered by sender, then message ID. */
+  entries: () => UnknownMessageEntry[];
+  clear: () => void;
+}
+
+export interface UnknownMessageInventoryOptions {
+  /** Distinct hex dumps kept per entry. Defaults to 3. */
+  maxSamples?: number;
+}
+
+/**
+ * Samples collected for one entry, with payload lengths as a set until read.
+ */
+type PendingEntry = Omit<UnknownMessageEntry, "payloadLengths"> & {
+  payloadLengths: Set<number>;
+};
+
+/* ============================
+ * Constants
+ * ============================ */
+
+const DEFAULT_MAX_SAMPLES = 3;
+
+/* ============================
+ * Helpers
+ * ============================ */
+
+/**
+ * Formats bytes as space-separated lowercase hex, e.g. "01 01 91 f5".
+ */
+export function toHexDump(bytes: number[]): string {
+  return bytes.map((byte) => byte.toString(16).padStart(2, "0")).join(" ");
+}
+
+/* ============================
+ * Inventory
+ * ============================ */
+
+/**
+ * Creates an inventory of frames the decoder dropped, grouped by device ID and message ID,
+ * so messages missing from udp_config.ts can be spotted in real logs.
+ */
+export function createUnknownMessageInventory(
+  options: UnknownMessageInventoryOptions = {}
+): UnknownMessageInventory {
+  const { maxSamples = DEFAULT_MAX_SAMPLES } = options;
+  const byKey = new Map<string, PendingEntry>();
+
+  return {
+    add(frame: UnknownFrame): void {
+      const key = `${frame.deviceId}_${frame.messageId}`;
+      let entry = byKey.get(key);
+      if (!entry) {
+        entry = {
+          reason: frame.reason,
+          deviceId: frame.deviceId,
+          sender: frame.sender,
+          messageId: frame.messageId,
+          count: 0,
+          firstTimestamp: frame.timestamp,
+          lastTimestamp: frame.timestamp,
+          payloadLengths: new Set(),
+          samples: [],
+        };
+        byKey.set(key, entry);
+      }
+
+      entry.count++;
+      entry.firstTimestamp = Math.min(entry.firstTimestamp, frame.timestamp);
+      entry.lastTimestamp = Math.max(entry.lastTimestamp, frame.timestamp);
+      entry.payloadLengths.add(frame.frame.length - UDP_HEADER_LENGTH);
+      if (entry.samples.length < maxSamples) {
+        const dump = toHexDump(frame.frame);
+        if (!entry.samples.includes(dump)) entry.samples.push(dump);
+      }
+    },
+
+    entries: () =>
+      Array.from(byKey.values(), (entry) => ({
+        ...entry,
+        payloadLengths: Array.from(entry.payloadLengths).sort((a, b) => a - b),
+        samples: [...entry.samples],
+      })).sort(
+        (a, b) =>
+          a.sender.localeCompare(b.sender) ||
+          a.deviceId - b.deviceId ||
+          a.messageId.localeCompare(b.messageId)
+      ),
+
+    clear(): void {
+      byKey.clear();
+    },
+  };
+}
+
+/**
+ * Decodes rows only to collect the frames that didn't decode.
+ */
+export function inventoryUnknownMessages(
+  tableRows: LogRowWithDateAndMessageIDAndType[],
+  options: DecodeOptions & UnknownMessageInventoryOptions = {}
+): UnknownMessageEntry[] {
+  const inventory = createUnknownMessageInventory(options);
+  decodeUDPLogRows(tableRows, () => {}, {
+    ...options,
+    onUnknownFrame: inventory.add,
+  });
+  return inventory.entries();
+}
+
+/**
+ * Formats entries as a plain-text report, one block per message.
+ */
+export function formatUnknownMessageReport(
+  entries: UnknownMessageEntry[]
+): string {
+  return entries
+    .map((entry) =>
+      [
+        `${entry.sender} (device ${entry.deviceId}) message 0x${entry.messageId}: ${entry.reason}`,
+        `  count ${entry.count}, ${new Date(
+          entry.firstTimestamp
+        ).toISOString()} .. ${new Date(entry.lastTimestamp).toISOString()}`,
+        `  payload lengths ${entry.payloadLengths.join(", ")}`,
+        ...entry.samples.map((sample) => `  ${sample}`),
+      ].join("\n")
+    )
+    .join("\n\n");
+}
+
+/* ============================
+ * CLI
+ * `bun run inventory.ts [rows.jsonl]` reports undecoded frames in a JSONEachRow dump,
+ * or in the bundled sample data.
+ * ============================ */
+
+if (import.meta.main) {
+  const path = process.argv[2];
+  const inventory = createUnknownMessageInventory();
+
+  if (path) {
+    const rows = readJSONEachRow(Bun.file(path).stream());
+    for await (const _batch of decodeUDPLogStream(rows, {
+      onUnknownFrame: inventory.add,
+    })) {
+      // Points are discarded; only the undecoded frames matter here
+    }
+  } else {
+    decodeUDPLogRows(rawLogData, () => {}, { onUnknownFrame: inventory.add });
+  }
+
+  const entries = inventory.entries();
+  console.log(
+    entries.length > 0
+      ? formatUnknownMessageReport(entries)
+      : "Every frame matched a config entry."
+  );
+}
@@ -0,0 +1,378 @@
+import { formatIssuePath, loadUdpConfigFile } from "./config";
+import {
+  findSelectorField,
+  getFieldVariants,
+  getSelectorBytes,
+  getVariantSelectorValues,
+  type ConfigMessage,
+  type DataType,
+  type UdpConfig,
+  type UdpConfigSection,
+  type UdpField,
+} from "./index";
+import { udpConfig } from "./udp_config";
+
+/* ============================
+ * Types
+ * ============================ */
+
+export type LintSeverity = "error" | "warning";
+
+export interface LintIssue {
+  severity: LintSeverity;
+  path: string; // e.g. `"Dock Messages".Prefixes."7".Fields[4]`
+  message: string;
+}
+
+/* ============================
+ * Constants
+ * ============================ */
+
+/**
+ * Number of bytes each data type occupies in the payload.
+ */
+const DATA_TYPE_SIZES: Record<NonNullable<DataType>, number> = {
+  uint8_t: 1,
+  uint16_t: 2,
+  uint32_t: 4,
+  uint64_t: 8,
+  int8_t: 1,
+  int16_t: 2,
+  int32_t: 4,
+  int64_t: 8,
+  float: 4,
+  double: 8,
+  bool: 1,
+};
+
+/* ============================
+ * Checks
+ * ============================ */
+
+/**
+ * Checks that a data type fits the bytes configured for it.
+ */
+function lintTypeSize(
+  type: DataType,
+  bytes: number[],
+  report: (severity: LintSeverity, message: string) => void
+): void {
+  if (!type) return;
+  const expected = DATA_TYPE_SIZES[type];
+  if (bytes.length !== expected) {
+    report(
+      "error",
+      `type ${type} needs ${expected} byte(s) but ${bytes.length} are configured`
+    );
+  }
+}
+
+/**
+ * Checks a field's dependency: where its selector is read from and the variants it picks.
+ */
+function lintDependency(
+  field: UdpField,
+  fields: UdpField[],
+  payloadLength: number,
+  report: (severity: LintSeverity, message: string) => void
+): void {
+  const { dependent_on } = field;
+  if (!dependent_on) return;
+  let enumMap: Record<string, string> | undefined;
+
+  if ("field" in dependent_on) {
+    const selector = findSelectorField(fields, dependent_on.field);
+    if (!selector) {
+      report(
+        "error",
+        `dependent_on.field '${dependent_on.field}' isn't a field of this message`
+      );
+    } else if (selector.field.dependent_on) {
+      report(
+        "error",
+        `dependent_on.field '${dependent_on.field}' is itself conditional`
+      );
+    } else if (!selector.bit && selector.field.use_enum === 1) {
+      enumMap = selector.field.enum;
+    }
+  } else {
+    const { byte, bit, num = 1 } = dependent_on;
+    const lastByte = getSelectorBytes(dependent_on).at(-1) ?? byte;
+    if (byte < 0 || lastByte >= payloadLength) {
+      report(
+        "error",
+        `dependent_on.byte ${byte} is outside the ${payloadLength}-byte payload`
+      );
+    }
+    if (bit < 0 || bit > 7) {
+      report("error", `dependent_on.bit ${bit} is not 0..7`);
+    }
+    if (!Number.isInteger(num) || num < 1 || num > 31) {
+      report("error", `dependent_on.num ${num} is not 1..31`);
+    }
+  }
+
+  const { variants } = dependent_on;
+  if (!variants) {
+    if ("field" in dependent_on) {
+      report("error", "selects on a field but defines no variants");
+    } else if ((dependent_on.num ?? 1) !== 1) {
+      report("error", "selects on more than one bit but defines no variants");
+    } else if (field.label.split(" | ").length !== 2) {
+      report(
+        "error",
+        `uses dependent_on but label '${field.label}' isn't in "A | B" form`
+      );
+    }
+    return;
+  }
+
+  if (variants.length === 0) {
+    report("warning", "defines no variants, so it is never decoded");
+  }
+  variants.forEach((variant, index) => {
+    const name = `variant ${index}${
+      variant.label ? ` '${variant.label}'` : ""
+    }`;
+    if (variant.type !== undefined && field.use_bits !== 1) {
+      lintTypeSize(variant.type, field.bytes, (severity, text) =>
+        report(severity, `${name} ${text}`)
+      );
+    }
+    if (
+      variants.slice(0, index).some((earlier) => earlier.when === undefined)
+    ) {
+      report(
+        "warning",
+        `${name} follows a variant without 'when' and is never picked`
+      );
+    }
+    const when = getVariantSelectorValues(variant) ?? [];
+    for (const entry of when) {
+      if (
+        typeof entry === "string" &&
+        !Object.values(enumMap ?? {}).includes(entry)
+      ) {
+        report(
+          "error",
+          `${name} matches '${entry}', which isn't an enum label of its selector`
+        );
+      }
+    }
+  });
+}
+
+/**
+ * Checks one field on its own: type size, bit ranges, enum/bits flags and dependency.
+ */
+function lintField(
+  field: UdpField,
+  fields: UdpField[],
+  payloadLength: number,
+  report: (severity: LintSeverity, message: string) => void
+): void {
+  const { bytes, type, bits, use_bits, use_enum } = field;
+
+  if (bytes.length === 0) {
+    report("error", "has no bytes configured");
+  }
+  if (bytes.some((byte) => !Number.isInteger(byte) || byte < 0)) {
+    report("error", `has invalid byte offsets [${bytes.join(", ")}]`);
+  }
+  if (bytes.some((byte, i) => i > 0 && byte !== (bytes[i - 1] ?? 0) + 1)) {
+    report(
+      "warning",
+      `bytes [${bytes.join(", ")}] are not contiguous and ascending`
+    );
+  }
+
+  if (use_bits === 1) {
+    if (!bits || bits.length === 0) {
+      report("error", "sets use_bits but defines no bits");
+    }
+    const bitCapacity = bytes.length * 8;
+    for (const bit of bits ?? []) {
+      if (bit.Num < 1 || bit.Start < 0 || bit.Start + bit.Num > bitCapacity) {
+        report(
+          "error",
+          `bit '${bit.Name}' (start ${bit.Start}, ${bit.Num} bits) doesn't fit in ${bytes.length} byte(s)`
+        );
+      }
+    }
+    const bitNames = (bits ?? []).map((bit) => bit.Name);
+    for (const name of new Set(bitNames)) {
+      if (bitNames.indexOf(name) !== bitNames.lastIndexOf(name)) {
+        report("warning", `duplicate bit name '${name}'`);
+      }
+    }
+  } else {
+    lintTypeSize(type, bytes, report);
+  }
+
+  if (use_enum === 1 && !field.enum) {
+    report("warning", "sets use_enum but defines no enum map");
+  }
+
+  lintDependency(field, fields, payloadLength, report);
+}
+
+/**
+ * Identifies a dependency's selector: the field it names, or the payload bits it reads.
+ */
+function getSelectorKey(
+  dependency: NonNullable<UdpField["dependent_on"]>
+): string {
+  return "field" in dependency
+    ? `field ${dependency.field}`
+    : `bits ${dependency.byte}:${dependency.bit}:${dependency.num ?? 1}`;
+}
+
+/**
+ * The selector values for which a conditional field is present; null when it may be present
+ * for any value.
+ */
+function getPresentSelectorValues(field: UdpField): (number | string)[] | null {
+  const variants = getFieldVariants(field);
+  if (variants.length === 0) return null;
+  const values: (number | string)[] = [];
+  for (const variant of variants) {
+    const when = getVariantSelectorValues(variant);
+    if (when === null) return null;
+    values.push(...when);
+  }
+  return values;
+}
+
+/**
+ * True when two fields are never present in the same frame: both are selected by the same
+ * selector, for values that don't overlap. A value and an enum label are assumed to overlap.
+ */
+function areExclusive(a: UdpField, b: UdpField): boolean {
+  if (!a.dependent_on || !b.dependent_on) return false;
+  if (getSelectorKey(a.dependent_on) !== getSelectorKey(b.dependent_on)) {
+    return false;
+  }
+  const aValues = getPresentSelectorValues(a);
+  const bValues = getPresentSelectorValues(b);
+  if (!aValues || !bValues) return false;
+  return !aValues.some((value) =>
+    bValues.some((other) => typeof value !== typeof other || value === other)
+  );
+}
+
+/**
+ * Checks one message entry: every field, overlapping bytes and duplicate labels. Fields that
+ * are never present together may share bytes.
+ */
+function lintMessage(
+  message: ConfigMessage,
+  path: PropertyKey[],
+  issues: LintIssue[]
+): void {
+  const payloadLength = message.Fields.reduce(
+    (length, field) => Math.max(length, ...field.bytes.map((b) => b + 1)),
+    0
+  );
+  const byteOwners = new Map<number, UdpField[]>();
+  const labels = new Map<string, number>();
+
+  message.Fields.forEach((field, index) => {
+    const fieldPath = formatIssuePath([...path, "Fields", index]);
+    const report = (severity: LintSeverity, text: string) =>
+      issues.push({
+        severity,
+        path: fieldPath,
+        message: `'${field.label}' ${text}`,
+      });
+
+    lintField(field, message.Fields, payloadLength, report);
+
+    for (const byte of new Set(field.bytes)) {
+      const owners = byteOwners.get(byte) ?? [];
+      const owner = owners.find((other) => !areExclusive(field, other));
+      if (owner) {
+        report("error", `overlaps '${owner.label}' at byte ${byte}`);
+      } else {
+        byteOwners.set(byte, [...owners, field]);
+      }
+    }
+
+    // Conditional fields are emitted under each variant's label
+    const variants = getFieldVariants(field);
+    const emittedLabels =
+      variants.length > 0
+        ? [...new Set(variants.map((variant) => variant.label ?? field.label))]
+        : [field.label];
+    for (const label of emittedLabels) {
+      const firstIndex = labels.get(label);
+      if (firstIndex !== undefined) {
+        report(
+          "warning",
+          `duplicates label '${label}' of Fields[${firstIndex}]`
+        );
+      } else {
+        labels.set(label, index);
+      }
+    }
+  });
+}
+
+/* ============================
+ * Linter
+ * ============================ */
+
+/**
+ * Checks semantic invariants that schema validation can't express, across every section
+ * ("Dock Messages", "SwarmBot Messages", "Other Messages"). Returns all issues found.
+ */
+export function lintUdpConfig(config: UdpConfig): LintIssue[] {
+  const issues: LintIssue[] = [];
+
+  for (const [sectionName, section] of Object.entries(config) as [
+    keyof UdpConfig,
+    UdpConfigSection,
+  ][]) {
+    for (const [key, entry] of Object.entries(section.Prefixes)) {
+      lintMessage(entry, [sectionName, "Prefixes", key], issues);
+    }
+    for (const [key, entry] of Object.entries(section.Messages)) {
+      lintMessage(entry, [sectionName, "Messages", key], issues);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Formats issues one per line, e.g. `error   "Dock Messages".Messages."2".Fields[0]: ...`.
+ */
+export function formatLintIssues(issues: LintIssue[]): string {
+  return issues
+    .map(
+      (issue) => `${issue.severity.padEnd(7)} ${issue.path}: ${issue.message}`
+    )
+    .join("\n");
+}
+
+/* ============================
+ * CLI
+ * `bun run lint.ts [config.json|config.yaml]` lints the given file, or the built-in udpConfig.
+ * Exits non-zero when any error is found.
+ * ============================ */
+
+if (import.meta.main) {
+  const path = process.argv[2];
+  const config = path ? await loadUdpConfigFile(path) : udpConfig;
+  const issues = lintUdpConfig(config);
+  const errorCount = issues.filter(
+    (issue) => issue.severity === "error"
+  ).length;
+
+  if (issues.length > 0) console.log(formatLintIssues(issues));
+  console.log(
+    `${errorCount} error(s), ${issues.length - errorCount} warning(s) in ${
+      path ?? "udp_config.ts"
+    }`
+  );
+  process.exit(errorCount > 0 ? 1 : 0);
+}
@@ -0,0 +1,237 @@
+import type { ServerWebSocket } from "bun";
+import {
+  decodeLogRow,
+  type DecodeOptions,
+  type DecodedPoint,
+  type LogRowWithDateAndMessageIDAndType,
+} from "./index";
+import {
+  matchesPointFilter,
+  readPointFilter,
+  type PointFilter,
+} from "./server";
+
+/* ============================
+ * Types
+ * ============================ */
+
+export type PointSubscriber = (points: DecodedPoint[]) => void;
+
+/**
+ * Fans decoded points out to subscribers, one batch per received frame.
+ */
+export interface PointHub {
+  publish: (points: DecodedPoint[]) => void;
+  /** Returns a function that unsubscribes. */
+  subscribe: (subscriber: PointSubscriber, filter?: PointFilter) => () => void;
+  subscriberCount: () => number;
+}
+
+export interface LiveDecoderOptions {
+  /** UDP port the DNR frames arrive on. Defaults to $UDP_PORT, then 5000. */
+  udpPort?: number;
+  /** Interface to bind the UDP socket to. Defaults to all interfaces. */
+  udpHostname?: string;
+  /** HTTP port for /events (SSE) and /ws (WebSocket). Defaults to $PORT, then 3001. */
+  httpPort?: number;
+  decodeOptions?: DecodeOptions;
+}
+
+export interface LiveDecoder {
+  hub: PointHub;
+  udpPort: number;
+  httpUrl: URL;
+  stop: () => void;
+}
+
+/**
+ * Per-connection state of a WebSocket subscriber.
+ */
+type SocketData = {
+  filter: PointFilter;
+  unsubscribe?: () => void;
+};
+
+/* ============================
+ * Constants
+ * ============================ */
+
+const DEFAULT_UDP_PORT = 5000;
+
+const DEFAULT_HTTP_PORT = 3001;
+
+// Comment lines keep proxies from closing idle SSE connections
+const SSE_KEEPALIVE_MS = 15000;
+
+/* ============================
+ * Hub
+ * ============================ */
+
+/**
+ * Creates a hub that delivers each published batch to every subscriber, filtered per subscriber.
+ * Empty batches (after filtering) are not delivered.
+ */
+export function createPointHub(): PointHub {
+  const subscribers = new Map<PointSubscriber, PointFilter>();
+
+  return {
+    publish(points: DecodedPoint[]): void {
+      for (const [subscriber, filter] of subscribers) {
+        const matching = points.filter((point) =>
+          matchesPointFilter(point, filter)
+        );
+        if (matching.length > 0) subscriber(matching);
+      }
+    },
+
+    subscribe(subscriber: PointSubscriber, filter: PointFilter = {}) {
+      subscribers.set(subscriber, filter);
+      return () => {
+        subscribers.delete(subscriber);
+      };
+    },
+
+    subscriberCount: () => subscribers.size,
+  };
+}
+
+/* ============================
+ * HTTP
+ * ============================ */
+
+/**
+ * Streams batches to an SSE client as `event: points` messages holding a JSON array.
+ * A stream that closed without being cancelled unsubscribes on its next message.
+ */
+function createEventStream(hub: PointHub, filter: PointFilter): Response {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          cleanup();
+        }
+      };
+      const unsubscribe = hub.subscribe((points) => {
+        send(`event: points\ndata: ${JSON.stringify(points)}\n\n`);
+      }, filter);
+      const keepalive = setInterval(
+        () => send(": keepalive\n\n"),
+        SSE_KEEPALIVE_MS
+      );
+      cleanup = () => {
+        clearInterval(keepalive);
+        unsubscribe();
+      };
+      send(": connected\n\n");
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+/* ============================
+ * Live decoder
+ * ============================ */
+
+/**
+ * Binds a UDP socket, decodes every frame as it arrives with the same config-driven decoder,
+ * and publishes the points to subscribers over SSE (`GET /events`) and WebSocket (`GET /ws`).
+ * Both accept repeatable `sender`, `messageId` and `label` query parameters.
+ */
+export async function startLiveDecoder(
+  options: LiveDecoderOptions = {}
+): Promise<LiveDecoder> {
+  const {
+    udpPort = Number(process.env.UDP_PORT) || DEFAULT_UDP_PORT,
+    udpHostname = "0.0.0.0",
+    httpPort = Number(process.env.PORT) || DEFAULT_HTTP_PORT,
+    decodeOptions = {},
+  } = options;
+  const hub = createPointHub();
+
+  const udp = await Bun.udpSocket({
+    port: udpPort,
+    hostname: udpHostname,
+    socket: {
+      data(_socket, data) {
+        const row: LogRowWithDateAndMessageIDAndType = {
+          date: String(Date.now()),
+          log: Array.from(data),
+          message_id: null,
+          type: "dnr_udp",
+        };
+        const points: DecodedPoint[] = [];
+        decodeLogRow(row, (point) => points.push(point), decodeOptions);
+        if (points.length > 0) hub.publish(points);
+      },
+    },
+  });
+
+  const http = Bun.serve({
+    port: httpPort,
+    fetch(request, server) {
+      const url = new URL(request.url);
+      const filter = readPointFilter(url.searchParams);
+
+      if (url.pathname === "/events") return createEventStream(hub, filter);
+      if (url.pathname === "/ws") {
+        if (server.upgrade(request, { data: { filter } })) return undefined;
+        return new Response("Expected a WebSocket upgrade", { status: 426 });
+      }
+      return Response.json({ error: "Not found" }, { status: 404 });
+    },
+    websocket: {
+      open(socket: ServerWebSocket<SocketData>) {
+        socket.data.unsubscribe = hub.subscribe(
+          (points) => socket.send(JSON.stringify(points)),
+          socket.data.filter
+        );
+      },
+      message() {
+        // Subscribers only listen
+      },
+      close(socket: ServerWebSocket<SocketData>) {
+        socket.data.unsubscribe?.();
+      },
+    },
+  });
+
+  return {
+    hub,
+    udpPort: udp.port,
+    httpUrl: http.url,
+    stop() {
+      udp.close();
+      http.stop(true);
+    },
+  };
+}
+
+/* ============================
+ * CLI
+ * `bun run live.ts` listens for frames on $UDP_PORT (default 5000) and publishes on $PORT (default 3001).
+ * ============================ */
+
+if (import.meta.main) {
+  const live = await startLiveDecoder();
+  console.log(
+    `Decoding UDP frames on port ${live.udpPort}; subscribe at ${new URL(
+      "/events",
+      live.httpUrl
+    )} or ${new URL("/ws", live.httpUrl)}`
+  );
+}
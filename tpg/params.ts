@@ -0,0 +1,449 @@
+import { isCanRowType } from "./can";
+import { rawLogData } from "./data";
+import { decodeUDPHeader } from "./header";
+import {
+  getConfigSectionForDevice,
+  getUdpConfig,
+  resolveConfigMessage,
+  UDP_HEADER_LENGTH,
+  type ConfigMessage,
+  type LogRowWithDateAndMessageIDAndType,
+  type UdpConfig,
+} from "./index";
+import { readJSONEachRow } from "./stream";
+
+/* ============================
+ * Types
+ * ============================ */
+
+export type ParamExchangeKind = "multi" | "array";
+
+export type ParamOperation = "read" | "write";
+
+/**
+ * How an exchange ended:
+ * - ok: the dock answered ReadSuccess/WriteSuccess (for arrays, for every requested element)
+ * - failed: the dock answered Fail
+ * - partial: an array read timed out with only some elements answered
+ * - no_response: nothing came back within the timeout
+ */
+export type ParamExchangeStatus = "ok" | "failed" | "partial" | "no_response";
+
+/**
+ * An inclusive index range; multi-param messages use a single index (start = end).
+ */
+export interface IndexRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * One parameter element carried by a response frame.
+ */
+export interface ParamValue {
+  index1: number;
+  index2: number;
+  raw: string; // 64-bit Value Resp as a decimal string
+  value: number | string; // interpreted by Var Type; 64-bit integers as decimal strings
+}
+
+/**
+ * A parameter read or write: the request and the dock's response(s), paired by parameter ID.
+ */
+export interface ParamExchange {
+  kind: ParamExchangeKind;
+  paramId: number;
+  /** Sender of the request, e.g. "swarmbot" or "paramSyncer"; null for unsolicited responses */
+  requester: string | null;
+  operation: ParamOperation | null; // null for an unsolicited Fail
+  varType: string; // e.g. "REAL", or the raw number when unknown
+  index1: IndexRange;
+  index2: IndexRange;
+  /** Writes only: value sent, interpreted by Var Type */
+  writeValue: number | string | null;
+  values: ParamValue[]; // ordered by index1, then index2
+  status: ParamExchangeStatus;
+  requestedAt: number | null; // epoch ms
+  respondedAt: number | null; // epoch ms of the last response frame
+  latencyMs: number | null; // request to last response frame
+}
+
+export interface ParamExchangeTrackerOptions {
+  /** Config laying out the param messages. Defaults to the active config (see setUdpConfig). */
+  config?: UdpConfig;
+  /** A request with no (complete) response after this long is closed. Defaults to 2000 ms. */
+  timeoutMs?: number;
+}
+
+export interface ParamExchangeTracker {
+  /** Feeds one log row; rows must arrive in time order. Other messages are ignored. */
+  add: (row: LogRowWithDateAndMessageIDAndType) => void;
+  /** Closes pending requests and returns every exchange ordered by first frame. */
+  finish: () => ParamExchange[];
+}
+
+/**
+ * Fields of one param frame, read by config label.
+ */
+type ParamFrame = {
+  kind: ParamExchangeKind;
+  sender: string;
+  timestamp: number;
+  paramId: number;
+  code: number; // Req (requests) or Resp (responses)
+  varType: number;
+  index1: IndexRange;
+  index2: IndexRange;
+  value: bigint;
+};
+
+/**
+ * An exchange awaiting responses, with the elements still expected.
+ */
+type PendingExchange = {
+  exchange: ParamExchange;
+  varType: number;
+  expected: number;
+};
+
+/* ============================
+ * Constants
+ * ============================ */
+
+const DEFAULT_TIMEOUT_MS = 2000;
+
+// Message IDs shared by the swarmbot's requests and the dock's responses
+const PARAM_MESSAGE_KINDS: Record<number, ParamExchangeKind> = {
+  8: "multi",
+  9: "array",
+};
+
+// Request "Req"
+const REQ_WRITE = 255;
+
+// Response "Resp"
+const RESP_WRITE_SUCCESS = 255;
+const RESP_READ_SUCCESS = 240;
+
+// IEC 61131-3 "Var Type" enum, as in the config
+const VAR_TYPES = [
+  "BOOL",
+  "BYTE",
+  "WORD",
+  "DWORD",
+  "LWORD",
+  "SINT",
+  "INT",
+  "DINT",
+  "LINT",
+  "REAL",
+  "LREAL",
+  "TIME",
+];
+
+/* ============================
+ * Helpers
+ * ============================ */
+
+/**
+ * Interprets the low bytes of a 64-bit param value as the given Var Type. 64-bit integers are
+ * returned as decimal strings; unknown types as the raw value.
+ */
+export function interpretParamValue(
+  raw: bigint,
+  varType: number
+): number | string {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setBigUint64(0, raw, true);
+  switch (VAR_TYPES[varType]) {
+    case "BOOL":
+      return view.getUint8(0) === 0 ? 0 : 1;
+    case "BYTE":
+      return view.getUint8(0);
+    case "WORD":
+      return view.getUint16(0, true);
+    case "DWORD":
+    case "TIME": // milliseconds
+      return view.getUint32(0, true);
+    case "SINT":
+      return view.getInt8(0);
+    case "INT":
+      return view.getInt16(0, true);
+    case "DINT":
+      return view.getInt32(0, true);
+    case "LINT":
+      return view.getBigInt64(0, true).toString();
+    case "REAL":
+      return view.getFloat32(0, true);
+    case "LREAL":
+      return view.getFloat64(0, true);
+    default:
+      return raw.toString();
+  }
+}
+
+/**
+ * Names a Var Type, e.g. "REAL", or returns the number when it is not in the enum.
+ */
+export function formatVarType(varType: number): string {
+  return VAR_TYPES[varType] ?? String(varType);
+}
+
+/**
+ * Reads every field of a config message as a little-endian unsigned integer, keyed by label.
+ * The param messages hold only integers; "Var Type" has no decoder type, so it is read here too.
+ */
+export function readFieldsByLabel(
+  payload: number[],
+  configMessage: ConfigMessage
+): Map<string, bigint> {
+  const fields = new Map<string, bigint>();
+  for (const { label, bytes } of configMessage.Fields) {
+    if (bytes.some((offset) => offset >= payload.length)) continue;
+    let value = 0n;
+    for (let i = bytes.length - 1; i >= 0; i--) {
+      value = (value << 8n) | BigInt(payload[bytes[i] ?? 0] ?? 0);
+    }
+    fields.set(label, value);
+  }
+  return fields;
+}
+
+/**
+ * Reads a param request (swarmbot layout, whoever sent it) or response (dock layout).
+ * Returns null for other messages and frames missing the parameter ID.
+ */
+function readParamFrame(
+  row: LogRowWithDateAndMessageIDAndType,
+  config: UdpConfig
+): ParamFrame | null {
+  const header = decodeUDPHeader(row.log);
+  const kind = header && PARAM_MESSAGE_KINDS[header.messageId];
+  if (!header || !kind) return null;
+
+  const isResponse = header.deviceName === "dock";
+  const section = getConfigSectionForDevice(
+    config,
+    isResponse ? "dock" : "swarmbot"
+  );
+  const { configMessage } = resolveConfigMessage(section, header.messageId);
+  if (!configMessage) return null;
+
+  const fields = readFieldsByLabel(
+    row.log.slice(UDP_HEADER_LENGTH),
+    configMessage
+  );
+  const field = (label: string) => Number(fields.get(label) ?? 0n);
+  const paramId = fields.get(isResponse ? "ID Resp" : "ID Req");
+  if (paramId === undefined) return null;
+
+  const range = (name: string): IndexRange =>
+    kind === "multi"
+      ? { start: field(name), end: field(name) }
+      : { start: field(`${name} Start`), end: field(`${name} End`) };
+  return {
+    kind,
+    sender: header.deviceName,
+    timestamp: Number(row.date),
+    paramId: Number(paramId),
+    code: field(isResponse ? "Resp" : "Req"),
+    varType: field("Var Type"),
+    index1: range("Index1"),
+    index2: range("Index2"),
+    value: fields.get(isResponse ? "Value Resp" : "Value") ?? 0n,
+  };
+}
+
+function rangeSize({ start, end }: IndexRange): number {
+  return Math.max(1, end - start + 1);
+}
+
+function inRange(index: number, { start, end }: IndexRange): boolean {
+  return index >= start && index <= end;
+}
+
+/* ============================
+ * Tracker
+ * ============================ */
+
+/**
+ * Creates a tracker that pairs Multi/Array Param Requests with the dock's responses by
+ * parameter ID, oldest request first, and reassembles array reads from their per-element
+ * response frames. Each array response frame is taken to carry the element at its
+ * Index1 Start / Index2 Start, the request's inclusive ranges telling how many to expect.
+ */
+export function createParamExchangeTracker(
+  options: ParamExchangeTrackerOptions = {}
+): ParamExchangeTracker {
+  const { config = getUdpConfig(), timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+  const exchanges: ParamExchange[] = [];
+  let pending: PendingExchange[] = [];
+
+  const expire = (now: number) => {
+    pending = pending.filter((entry) => {
+      const { exchange } = entry;
+      const lastActivity = exchange.respondedAt ?? exchange.requestedAt ?? now;
+      if (now - lastActivity <= timeoutMs) return true;
+      exchange.status = exchange.values.length > 0 ? "partial" : "no_response";
+      return false;
+    });
+  };
+
+  const onRequest = (frame: ParamFrame) => {
+    const operation = frame.code === REQ_WRITE ? "write" : "read";
+    const exchange: ParamExchange = {
+      kind: frame.kind,
+      paramId: frame.paramId,
+      requester: frame.sender,
+      operation,
+      varType: formatVarType(frame.varType),
+      index1: frame.index1,
+      index2: frame.index2,
+      writeValue:
+        operation === "write"
+          ? interpretParamValue(frame.value, frame.varType)
+          : null,
+      values: [],
+      status: "no_response",
+      requestedAt: frame.timestamp,
+      respondedAt: null,
+      latencyMs: null,
+    };
+    exchanges.push(exchange);
+    pending.push({
+      exchange,
+      varType: frame.varType,
+      // A write is answered once, whatever its range
+      expected:
+        operation === "write"
+          ? 1
+          : rangeSize(frame.index1) * rangeSize(frame.index2),
+    });
+  };
+
+  const onResponse = (frame: ParamFrame) => {
+    const index1 = frame.index1.start;
+    const index2 = frame.index2.start;
+    let entry = pending.find(
+      ({ exchange }) =>
+        exchange.kind === frame.kind &&
+        exchange.paramId === frame.paramId &&
+        inRange(index1, exchange.index1) &&
+        inRange(index2, exchange.index2)
+    );
+
+    if (!entry) {
+      // Unsolicited, or its request was not captured
+      const exchange: ParamExchange = {
+        kind: frame.kind,
+        paramId: frame.paramId,
+        requester: null,
+        operation:
+          frame.code === RESP_WRITE_SUCCESS
+            ? "write"
+            : frame.code === RESP_READ_SUCCESS
+            ? "read"
+            : null,
+        varType: formatVarType(frame.varType),
+        index1: frame.index1,
+        index2: frame.index2,
+        writeValue: null,
+        values: [],
+        status: "no_response",
+        requestedAt: null,
+        respondedAt: null,
+        latencyMs: null,
+      };
+      exchanges.push(exchange);
+      entry = { exchange, varType: frame.varType, expected: 1 };
+    }
+
+    const { exchange } = entry;
+    exchange.respondedAt = frame.timestamp;
+    exchange.latencyMs =
+      exchange.requestedAt === null
+        ? null
+        : frame.timestamp - exchange.requestedAt;
+
+    if (frame.code !== RESP_READ_SUCCESS && frame.code !== RESP_WRITE_SUCCESS) {
+      exchange.status = "failed";
+      pending = pending.filter((other) => other !== entry);
+      return;
+    }
+
+    if (exchange.operation === "read" || exchange.requestedAt === null) {
+      const value: ParamValue = {
+        index1,
+        index2,
+        raw: frame.value.toString(),
+        value: interpretParamValue(frame.value, entry.varType),
+      };
+      // A repeated element replaces the earlier answer
+      exchange.values = exchange.values
+        .filter((other) => other.index1 !== index1 || other.index2 !== index2)
+        .concat(value)
+        .sort((a, b) => a.index1 - b.index1 || a.index2 - b.index2);
+    }
+    if (
+      exchange.operation === "write" ||
+      exchange.values.length >= entry.expected
+    ) {
+      exchange.status = "ok";
+      pending = pending.filter((other) => other !== entry);
+    } else {
+      exchange.status = "partial";
+    }
+  };
+
+  return {
+    add(row: LogRowWithDateAndMessageIDAndType): void {
+      if (!row || !Array.isArray(row.log) || isCanRowType(row.type)) return;
+      expire(Number(row.date));
+      const frame = readParamFrame(row, config);
+      if (!frame) return;
+      if (frame.sender === "dock") onResponse(frame);
+      else onRequest(frame);
+    },
+
+    finish(): ParamExchange[] {
+      expire(Infinity);
+      return [...exchanges];
+    },
+  };
+}
+
+/**
+ * Pairs the param requests and responses in rows (sorted by date first).
+ */
+export function trackParamExchanges(
+  tableRows: LogRowWithDateAndMessageIDAndType[],
+  options: ParamExchangeTrackerOptions = {}
+): ParamExchange[] {
+  const tracker = createParamExchangeTracker(options);
+  const sorted = [...tableRows].sort((a, b) => Number(a.date) - Number(b.date));
+  for (const row of sorted) tracker.add(row);
+  return tracker.finish();
+}
+
+/* ============================
+ * CLI
+ * `bun run params.ts [rows.jsonl]` prints the parameter exchanges in a JSONEachRow dump
+ * (in time order), or in the bundled sample data, as JSON Lines.
+ * ============================ */
+
+if (import.meta.main) {
+  const path = process.argv[2];
+  let exchanges: ParamExchange[];
+
+  if (path) {
+    const tracker = createParamExchangeTracker();
+    for await (const row of readJSONEachRow(Bun.file(path).stream())) {
+      tracker.add(row);
+    }
+    exchanges = tracker.finish();
+  } else {
+    exchanges = trackParamExchanges(rawLogData);
+  }
+
+  for (const exchange of exchanges) console.log(JSON.stringify(exchange));
+}
@@ -0,0 +1,560 @@
+import { isCanRowType } from "./can";
+import { rawLogData } from "./data";
+import { decodeUDPHeader, type UdpHeader } from "./header";
+import {
+  decodeLogRow,
+  getFieldLabel,
+  type DecodedPoint,
+  type DecodeOptions,
+  type LogRowWithDateAndMessageIDAndType,
+} from "./index";
+import { readJSONEachRow } from "./stream";
+
+/* ============================
+ * Types
+ * ============================ */
+
+/**
+ * A pin's health from its last measurement:
+ * - fault: an ERR_* diagnostic, or OutState Error
+ * - warning: a DIAG_* diagnostic, or a measured mode that differs from the configured one
+ * - ok: a STAT_* diagnostic
+ * - unknown: not measured yet, or a diagnostic outside those groups
+ */
+export type PinHealth = "ok" | "warning" | "fault" | "unknown";
+
+/**
+ * What the dock last reported for a pin (Pin Measure).
+ */
+export interface PinMeasurement {
+  timestamp: number; // epoch ms of the last frame
+  mode: number | null; // eMode
+  modeLabel: string | null; // e.g. "BH_o"
+  diagnostic: string | null; // eDiagInfo, e.g. "ERR_OPEN_CIRCUIT"
+  outState: string | null; // "Good" or "Error"
+  ioId: number | null; // IO_ID ID
+  isInput: boolean | null; // IO_ID IsInput
+  /** mV; output pins, or when the frame doesn't say which kind of pin it is */
+  voltage: number | null;
+  current: number | null; // uA; output pins
+  decoded: number | null; // input pins
+  raw: number | null; // input pins
+  frames: number; // Pin Measure frames seen
+}
+
+/**
+ * How a pin was last configured (Pin Config), by any sender other than the dock and swarmbot.
+ */
+export interface PinConfiguration {
+  timestamp: number; // epoch ms of the last frame
+  sender: string;
+  mode: number | null; // eMode, comparable with the measured eMode
+  outputOffDelayMs: number | null;
+  responseFreqMs: number | null;
+  ignoreCmdTimeout: boolean | null;
+  controlInStandard: boolean | null;
+  flags: Record<string, boolean>; // Flags bits by name, e.g. DisableOverride
+}
+
+/**
+ * The last Output Override Command for a pin.
+ */
+export interface PinOverride {
+  timestamp: number; // epoch ms
+  sender: string;
+  value: number; // Voltage / Current
+}
+
+/**
+ * The state of one pin of one dock, keyed by the dock's source ID and the Pin ID of its messages.
+ */
+export interface PinState {
+  /** Source ID (header bytes 2..3) of the dock; null when no dock frame was seen */
+  dock: number | null;
+  pin: number;
+  measured: PinMeasurement | null;
+  config: PinConfiguration | null;
+  override: PinOverride | null;
+  /** Measured eMode equals the configured one; null until both are known */
+  modeMatchesConfig: boolean | null;
+  health: PinHealth;
+}
+
+/**
+ * A discrete change on a pin: a measured mode, diagnostic or OutState, a configuration field,
+ * an override value, or an error reset request (xErrorReset).
+ */
+export interface PinEvent {
+  /** Source ID of the dock; null for a configuration or override broadcast to every dock */
+  dock: number | null;
+  pin: number;
+  timestamp: number; // epoch ms
+  source: "measure" | "config" | "override";
+  field: string; // config label, e.g. "eDiagInfo" or "Flags_DisableOverride"
+  from: number | string | null; // null for the first value seen
+  to: number | string;
+}
+
+export interface PinStateTracker {
+  /** Checks one row; rows must arrive in time order. Other messages and CAN rows are ignored. */
+  add: (row: LogRowWithDateAndMessageIDAndType) => void;
+  /**
+   * Every pin seen, ordered by dock and Pin ID. A broadcast configuration or override applies
+   * to the pin on every dock that has no configuration or override addressed to it.
+   */
+  pins: () => PinState[];
+  /** Every change, oldest first. */
+  events: () => PinEvent[];
+}
+
+/* ============================
+ * Constants
+ * ============================ */
+
+// Prefixes (high byte of the message ID) of the pin messages
+const PIN_MESSAGE_PREFIXES = {
+  config: "05", // Pin Config, Other Messages
+  override: "06", // Output Override Command, Other Messages
+  measure: "07", // Pin Measure, Dock Messages
+} as const;
+
+// Pin Measure fields reported as events when they change
+const MEASURE_EVENT_FIELDS = new Set(["eMode", "eDiagInfo", "OutState"]);
+
+// Pin Config "xErrorReset", "IgnoreCmdTimeout" and "ControlInStandard"
+const CONFIG_TRUE = 255;
+
+const FLAGS_PREFIX = "Flags_";
+
+// Destination ID of frames sent to every device
+const BROADCAST_ID = 0xffff;
+
+// Map key of broadcast configurations and overrides, in place of a dock's source ID
+const ALL_DOCKS = "*";
+
+/* ============================
+ * Helpers
+ * ============================ */
+
+/**
+ * Which pin message a point belongs to, if any.
+ */
+function pinMessageKind(
+  point: DecodedPoint
+): keyof typeof PIN_MESSAGE_PREFIXES | undefined {
+  if (point.instance === undefined) return undefined;
+  const prefix = point.messageId.slice(0, 2).toLowerCase();
+  if (point.sender === "dock") {
+    return prefix === PIN_MESSAGE_PREFIXES.measure ? "measure" : undefined;
+  }
+  if (point.sender === "swarmbot") return undefined;
+  if (prefix === PIN_MESSAGE_PREFIXES.config) return "config";
+  if (prefix === PIN_MESSAGE_PREFIXES.override) return "override";
+  return undefined;
+}
+
+/**
+ * Derives a pin's health from its measurement and whether its mode matches the config.
+ */
+export function getPinHealth(
+  measured: PinMeasurement | null,
+  modeMatchesConfig: boolean | null = null
+): PinHealth {
+  if (!measured) return "unknown";
+  const diagnostic = measured.diagnostic ?? "";
+  if (diagnostic.startsWith("ERR_") || measured.outState === "Error") {
+    return "fault";
+  }
+  if (diagnostic.startsWith("DIAG_") || modeMatchesConfig === false) {
+    return "warning";
+  }
+  return diagnostic.startsWith("STAT_") ? "ok" : "unknown";
+}
+
+/* ============================
+ * Tracker
+ * ============================ */
+
+/**
+ * Creates a tracker that keeps each dock pin's configured mode and settings (Pin Config), last
+ * override (Output Override Command) and the dock's measured mode, values and diagnostics
+ * (Pin Measure), recording every discrete change as an event. Docks are told apart by their
+ * source ID; configurations and overrides go to the dock their destination ID names.
+ */
+export function createPinStateTracker(
+  options: DecodeOptions = {}
+): PinStateTracker {
+  const docks = new Set<number>();
+  const pinNumbers = new Set<number>();
+  // Keyed "dock:pin", with ALL_DOCKS for broadcast configurations and overrides
+  const measurements = new Map<string, PinMeasurement>();
+  const configs = new Map<string, PinConfiguration>();
+  const overrides = new Map<string, PinOverride>();
+  const events: PinEvent[] = [];
+  // Last value of each event field, keyed "source:dock:pin:label"
+  const lastValues = new Map<string, number | string>();
+
+  // Records an event when a field's value differs from the last one seen
+  const record = (
+    dock: number | null,
+    point: DecodedPoint,
+    source: PinEvent["source"],
+    field: string,
+    to: PinEvent["to"]
+  ) => {
+    const pin = point.instance ?? 0;
+    const key = `${source}:${dock ?? ALL_DOCKS}:${pin}:${field}`;
+    const from = lastValues.get(key);
+    lastValues.set(key, to);
+    if (from === to) return;
+    events.push({
+      dock,
+      pin,
+      timestamp: point.timestamp,
+      source,
+      field,
+      from: from ?? null,
+      to,
+    });
+  };
+
+  const onMeasure = (dock: number, point: DecodedPoint) => {
+    const label = getFieldLabel(point);
+    const key = `${dock}:${point.instance ?? 0}`;
+    let measured = measurements.get(key);
+    if (!measured) {
+      measured = {
+        timestamp: point.timestamp,
+        mode: null,
+        modeLabel: null,
+        diagnostic: null,
+        outState: null,
+        ioId: null,
+        isInput: null,
+        voltage: null,
+        current: null,
+        decoded: null,
+        raw: null,
+        frames: 0,
+      };
+      measurements.set(key, measured);
+    }
+    measured.timestamp = point.timestamp;
+
+    if (MEASURE_EVENT_FIELDS.has(label)) {
+      record(dock, point, "measure", label, point.enumLabel ?? point.value);
+    }
+
+    switch (label) {
+      case "eDiagInfo":
+        // First field of the frame
+        measured.frames++;
+        measured.diagnostic = point.enumLabel ?? String(point.value);
+        break;
+      case "eMode":
+        measured.mode = point.value;
+        measured.modeLabel = point.enumLabel ?? null;
+        break;
+      case "OutState":
+        measured.outState = point.enumLabel ?? String(point.value);
+        break;
+      case "IO_ID_ID":
+        measured.ioId = point.value;
+        break;
+      case "IO_ID_IsInput":
+        measured.isInput = point.value === 1;
+        break;
+      // The label is resolved from IO_ID's IsInput bit
+      case "Voltage":
+        measured.voltage = point.value;
+        break;
+      case "Current":
+        measured.current = point.value;
+        break;
+      case "Decoded":
+        measured.decoded = point.value;
+        break;
+      case "Raw":
+        measured.raw = point.value;
+        break;
+    }
+  };
+
+  const onConfig = (dock: number | null, point: DecodedPoint) => {
+    const label = getFieldLabel(point);
+    if (label === "xErrorReset") {
+      // A command rather than a setting: every reset request is an event
+      if (point.value === CONFIG_TRUE) {
+        events.push({
+          dock,
+          pin: point.instance ?? 0,
+          timestamp: point.timestamp,
+          source: "config",
+          field: label,
+          from: null,
+          to: "Reset",
+        });
+      }
+      return;
+    }
+
+    const key = `${dock ?? ALL_DOCKS}:${point.instance ?? 0}`;
+    let config = configs.get(key);
+    if (!config) {
+      config = {
+        timestamp: point.timestamp,
+        sender: point.sender,
+        mode: null,
+        outputOffDelayMs: null,
+        responseFreqMs: null,
+        ignoreCmdTimeout: null,
+        controlInStandard: null,
+        flags: {},
+      };
+      configs.set(key, config);
+    }
+    config.timestamp = point.timestamp;
+    config.sender = point.sender;
+
+    record(dock, point, "config", label, point.enumLabel ?? point.value);
+
+    if (label === "eMode") config.mode = point.value;
+    if (label === "OutputOffDelay") config.outputOffDelayMs = point.value;
+    if (label === "Response Freq") config.responseFreqMs = point.value;
+    if (label === "IgnoreCmdTimeout") {
+      config.ignoreCmdTimeout = point.value === CONFIG_TRUE;
+    }
+    if (label === "ControlInStandard") {
+      config.controlInStandard = point.value === CONFIG_TRUE;
+    }
+    if (label.startsWith(FLAGS_PREFIX)) {
+      config.flags[label.slice(FLAGS_PREFIX.length)] = point.value === 1;
+    }
+  };
+
+  const onOverride = (dock: number | null, point: DecodedPoint) => {
+    record(dock, point, "override", getFieldLabel(point), point.value);
+    overrides.set(`${dock ?? ALL_DOCKS}:${point.instance ?? 0}`, {
+      timestamp: point.timestamp,
+      sender: point.sender,
+      value: point.value,
+    });
+  };
+
+  const onPoint = (header: UdpHeader, point: DecodedPoint) => {
+    const kind = pinMessageKind(point);
+    if (!kind) return;
+    pinNumbers.add(point.instance ?? 0);
+
+    if (kind === "measure") {
+      onMeasure(header.sourceId, point);
+      return;
+    }
+    const dock =
+      header.destinationId === BROADCAST_ID ? null : header.destinationId;
+    if (dock !== null) docks.add(dock);
+    if (kind === "config") onConfig(dock, point);
+    if (kind === "override") onOverride(dock, point);
+  };
+
+  const getPinState = (dock: number | null, pin: number): PinState | null => {
+    const find = <T>(entries: Map<string, T>) =>
+      entries.get(`${dock ?? ALL_DOCKS}:${pin}`) ??
+      entries.get(`${ALL_DOCKS}:${pin}`) ??
+      null;
+    const measured = measurements.get(`${dock}:${pin}`) ?? null;
+    const config = find(configs);
+    const override = find(overrides);
+    if (!measured && !config && !override) return null;
+
+    const measuredMode = measured?.mode ?? null;
+    const configuredMode = config?.mode ?? null;
+    const modeMatchesConfig =
+      measuredMode === null || configuredMode === null
+        ? null
+        : measuredMode === configuredMode;
+    return {
+      dock,
+      pin,
+      measured,
+      config,
+      override,
+      modeMatchesConfig,
+      health: getPinHealth(measured, modeMatchesConfig),
+    };
+  };
+
+  return {
+    add(row: LogRowWithDateAndMessageIDAndType): void {
+      if (!row || !Array.isArray(row.log) || isCanRowType(row.type)) return;
+      const header = decodeUDPHeader(row.log);
+      if (!header) return;
+      if (header.deviceName === "dock") docks.add(header.sourceId);
+      decodeLogRow(row, (point) => onPoint(header, point), options);
+    },
+
+    pins(): PinState[] {
+      const dockList: (number | null)[] = [...docks].sort((a, b) => a - b);
+      if (dockList.length === 0) dockList.push(null);
+      const pinList = [...pinNumbers].sort((a, b) => a - b);
+      return dockList.flatMap((dock) =>
+        pinList.flatMap((pin) => getPinState(dock, pin) ?? [])
+      );
+    },
+
+    events: () => [...events],
+  };
+}
+
+/**
+ * Builds pin states and their changes from rows (sorted by date first).
+ */
+export function buildPinStates(
+  tableRows: LogRowWithDateAndMessageIDAndType[],
+  options: DecodeOptions = {}
+): {
+  pins: PinState[];
+  events: PinEvent[];
+} {
+  const tracker = createPinStateTracker(options);
+  const sorted = [...tableRows].sort((a, b) => Number(a.date) - Number(b.date));
+  for (const row of sorted) tracker.add(row);
+  return { pins: tracker.pins(), events: tracker.events() };
+}
+
+/* ============================
+ * Report
+ * ============================ */
+
+function describeMeasurement(measured: PinMeasurement): string {
+  const values = measured.isInput
+    ? [
+        measured.decoded === null ? null : `decoded ${measured.decoded}`,
+        measured.raw === null ? null : `raw ${measured.raw}`,
+      ]
+    : [
+        measured.voltage === null ? null : `${measured.voltage} mV`,
+        measured.current === null ? null : `${measured.current} uA`,
+      ];
+  return [
+    measured.isInput === null ? null : measured.isInput ? "input" : "output",
+    measured.modeLabel ??
+      (measured.mode === null ? null : `mode ${measured.mode}`),
+    measured.diagnostic,
+    measured.outState === null ? null : `OutState ${measured.outState}`,
+    ...values,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+function describeConfiguration(config: PinConfiguration): string {
+  const flags = Object.entries(config.flags)
+    .filter(([, set]) => set)
+    .map(([name]) => name);
+  return [
+    config.mode === null ? null : `mode ${config.mode}`,
+    config.outputOffDelayMs === null
+      ? null
+      : `off delay ${config.outputOffDelayMs} ms`,
+    config.responseFreqMs === null
+      ? null
+      : `response ${config.responseFreqMs} ms`,
+    config.ignoreCmdTimeout ? "ignores command timeout" : null,
+    config.controlInStandard ? "control in standard" : null,
+    flags.length > 0 ? flags.join("+") : null,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+/**
+ * Formats a dock's source ID like the header bytes read, e.g. "f591".
+ */
+function formatDock(dock: number | null): string {
+  return dock === null ? "unknown" : dock.toString(16).padStart(4, "0");
+}
+
+function formatPinState(state: PinState): string {
+  return [
+    `  Pin ${state.pin} [${state.health}]${
+      state.modeMatchesConfig === false ? " mode differs from config" : ""
+    }`,
+    state.measured
+      ? `    measured ${describeMeasurement(state.measured)} (${new Date(
+          state.measured.timestamp
+        ).toISOString()})`
+      : null,
+    state.config
+      ? `    config ${describeConfiguration(state.config)} (from ${
+          state.config.sender
+        })`
+      : null,
+    state.override
+      ? `    override ${state.override.value} (from ${
+          state.override.sender
+        } at ${new Date(state.override.timestamp).toISOString()})`
+      : null,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Formats pin states as an IO health view, one block per dock listing its pins, followed by
+ * the dock's changes (broadcast changes are listed for every dock).
+ */
+export function formatPinReport(
+  pins: PinState[],
+  events: PinEvent[] = []
+): string {
+  const docks = [...new Set(pins.map((state) => state.dock))];
+  return docks
+    .map((dock) => {
+      const dockEvents = events.filter(
+        (event) => dock === null || event.dock === null || event.dock === dock
+      );
+      return [
+        `Dock ${formatDock(dock)}`,
+        ...pins.filter((state) => state.dock === dock).map(formatPinState),
+        ...(dockEvents.length > 0
+          ? [
+              "  Changes:",
+              ...dockEvents.map(
+                (event) =>
+                  `    ${new Date(event.timestamp).toISOString()} pin ${
+                    event.pin
+                  } ${event.field}: ${event.from ?? "-"} -> ${event.to}`
+              ),
+            ]
+          : []),
+      ].join("\n");
+    })
+    .join("\n\n");
+}
+
+/* ============================
+ * CLI
+ * `bun run pins.ts [rows.jsonl]` prints the IO health of each dock's pins and their changes in
+ * a JSONEachRow dump (in time order), or in the bundled sample data.
+ * ============================ */
+
+if (import.meta.main) {
+  const path = process.argv[2];
+  const tracker = createPinStateTracker();
+
+  if (path) {
+    for await (const row of readJSONEachRow(Bun.file(path).stream())) {
+      tracker.add(row);
+    }
+  } else {
+    [...rawLogData]
+      .sort((a, b) => Number(a.date) - Number(b.date))
+      .forEach(tracker.add);
+  }
+
+  const pins = tracker.pins();
+  console.log(
+    pins.length > 0 ? formatPinReport(pins, tracker.events()) : "No pins found."
+  );
+}
@@ -0,0 +1,234 @@
+import {
+  decodeUDPLogRows,
+  type DecodeOptions,
+  type DecodedPoint,
+  type DecodedPointSink,
+  type LogRowWithDateAndMessageIDAndType,
+  type ParsedLogMessage,
+  type UdpUnit,
+} from "./index";
+
+/* ============================
+ * Types
+ * ============================ */
+
+/**
+ * All samples of one decoded field, merged by `id` and sorted by timestamp.
+ * `timestamps[i]` and `values[i]` (and the optional per-sample arrays) describe the same sample.
+ */
+export interface ParsedLogSeries {
+  id: string;
+  label: string;
+  unit: UdpUnit | string;
+  messageId: string;
+  isEnum: boolean;
+  sender: string;
+  /** Prefix messages only: instance number from the message ID's low byte */
+  instance?: number;
+  timestamps: Float64Array; // epoch milliseconds
+  values: Float64Array;
+  /**
+   * Position of each sample in decode order, counted across all series. Samples sharing a
+   * timestamp are put back into their frames by it; absent when the decode order is unknown.
+   */
+  order?: Float64Array;
+  /** 64-bit integer fields only: exact raw integer per sample, as a decimal string */
+  exactValues?: string[];
+  /** Enum fields only: label per sample, null where the value is missing from the enum map */
+  enumLabels?: (string | null)[];
+  /** Enum fields only: true when any sample's value is missing from the enum map */
+  hasUnknownEnumValue?: boolean;
+}
+
+export interface SeriesAggregator {
+  /** Adds one decoded point to its series. */
+  add: DecodedPointSink;
+  /** Sorts and packs every series collected so far. */
+  finish: () => ParsedLogSeries[];
+}
+
+/**
+ * Samples collected for one id before they are packed into typed arrays.
+ */
+type PendingSeries = {
+  first: DecodedPoint;
+  timestamps: number[];
+  values: number[];
+  order: number[];
+  exactValues?: string[];
+  enumLabels?: (string | null)[];
+  isSorted: boolean;
+};
+
+/* ============================
+ * Helpers
+ * ============================ */
+
+/**
+ * Reorders `items` by `order` (a permutation of indices).
+ */
+function permute<T>(items: T[], order: number[]): T[] {
+  return order.map((index) => items[index] as T);
+}
+
+/**
+ * Packs a pending series into typed arrays, sorting by timestamp only if needed.
+ */
+function packSeries(pending: PendingSeries): ParsedLogSeries {
+  const { first } = pending;
+  let { timestamps, values, order, exactValues, enumLabels } = pending;
+
+  if (!pending.isSorted) {
+    // Stable sort so samples sharing a timestamp keep their arrival order
+    const sorted = timestamps.map((_, index) => index);
+    sorted.sort((a, b) => (timestamps[a] ?? 0) - (timestamps[b] ?? 0));
+    timestamps = permute(timestamps, sorted);
+    values = permute(values, sorted);
+    order = permute(order, sorted);
+    if (exactValues) exactValues = permute(exactValues, sorted);
+    if (enumLabels) enumLabels = permute(enumLabels, sorted);
+  }
+
+  const series: ParsedLogSeries = {
+    id: first.id,
+    label: first.label,
+    unit: first.unit,
+    messageId: first.messageId,
+    isEnum: first.isEnum,
+    sender: first.sender,
+    timestamps: Float64Array.from(timestamps),
+    values: Float64Array.from(values),
+    order: Float64Array.from(order),
+  };
+  if (first.instance !== undefined) series.instance = first.instance;
+  if (exactValues) series.exactValues = exactValues;
+  if (enumLabels) {
+    series.enumLabels = enumLabels;
+    series.hasUnknownEnumValue = enumLabels.includes(null);
+  }
+  return series;
+}
+
+/* ============================
+ * Aggregation
+ * ============================ */
+
+/**
+ * Creates a sink that merges decoded points into one series per `id`.
+ * Points are only kept as plain numbers until `finish`, so no per-sample objects are retained.
+ */
+export function createSeriesAggregator(): SeriesAggregator {
+  const pendingById = new Map<string, PendingSeries>();
+  let decoded = 0;
+
+  const add: DecodedPointSink = (point) => {
+    let pending = pendingById.get(point.id);
+    if (!pending) {
+      pending = {
+        first: point,
+        timestamps: [],
+        values: [],
+        order: [],
+        isSorted: true,
+      };
+      if (point.exactValue !== undefined) pending.exactValues = [];
+      if (point.enumLabel !== undefined) pending.enumLabels = [];
+      pendingById.set(point.id, pending);
+    }
+
+    const lastTimestamp = pending.timestamps[pending.timestamps.length - 1];
+    if (lastTimestamp !== undefined && point.timestamp < lastTimestamp) {
+      pending.isSorted = false;
+    }
+    pending.timestamps.push(point.timestamp);
+    pending.values.push(point.value);
+    pending.order.push(decoded++);
+    pending.exactValues?.push(point.exactValue ?? "");
+    pending.enumLabels?.push(point.enumLabel ?? null);
+  };
+
+  const finish = (): ParsedLogSeries[] =>
+    Array.from(pendingById.values(), packSeries);
+
+  return { add, finish };
+}
+
+/**
+ * Transforms rows of raw UDP logs into one time-sorted series per field id.
+ * This is the aggregated counterpart of transformUDPLogToTimeSeries.
+ */
+export function transformUDPLogToSeries(
+  tableRows: LogRowWithDateAndMessageIDAndType[],
+  options: DecodeOptions = {}
+): ParsedLogSeries[] {
+  const aggregator = createSeriesAggregator();
+  decodeUDPLogRows(tableRows, aggregator.add, options);
+  return aggregator.finish();
+}
+
+/**
+ * Merges already-decoded ParsedLogMessage entries into one series per `id`. Messages keep no
+ * order across fields, so the series carry no `order`.
+ */
+export function aggregateParsedLogMessages(
+  messages: ParsedLogMessage[]
+): ParsedLogSeries[] {
+  const aggregator = createSeriesAggregator();
+  for (const message of messages) {
+    message.series.forEach(([timestamp, value], index) => {
+      const point: DecodedPoint = {
+        id: message.id,
+        label: message.label,
+        unit: message.unit,
+        messageId: message.messageId,
+        isEnum: message.isEnum,
+        sender: message.sender,
+        timestamp,
+        value,
+      };
+      if (message.instance !== undefined) point.instance = message.instance;
+      const exactValue = message.exactValues?.[index];
+      if (exactValue !== undefined) point.exactValue = exactValue;
+      const enumLabel = message.enumLabels?.[index];
+      if (enumLabel !== undefined) point.enumLabel = enumLabel;
+      aggregator.add(point);
+    });
+  }
+  return aggregator.finish().map(({ order: _order, ...series }) => series);
+}
+
+/**
+ * Expands series back into decoded points ordered by timestamp, then by decode order where the
+ * series record it, so frames sharing a timestamp are not mixed.
+ */
+export function seriesToPoints(series: ParsedLogSeries[]): DecodedPoint[] {
+  const points: DecodedPoint[] = [];
+  const orders: number[] = [];
+  for (const entry of series) {
+    entry.timestamps.forEach((timestamp, index) => {
+      const point: DecodedPoint = {
+        id: entry.id,
+        label: entry.label,
+        unit: entry.unit,
+        messageId: entry.messageId,
+        isEnum: entry.isEnum,
+        sender: entry.sender,
+        timestamp,
+        value: entry.values[index] ?? NaN,
+      };
+      if (entry.instance !== undefined) point.instance = entry.instance;
+      const exactValue = entry.exactValues?.[index];
+      if (exactValue) point.exactValue = exactValue;
+      if (entry.enumLabels) point.enumLabel = entry.enumLabels[index] ?? null;
+      points.push(point);
+      orders.push(entry.order?.[index] ?? 0);
+    });
+  }
+  const sorted = points.map((_, index) => index);
+  sorted.sort(
+    (a, b) =>
+      (points[a]?.timestamp ?? 0) - (points[b]?.timestamp ?? 0) ||
+      (orders[a] ?? 0) - (orders[b] ?? 0)
+  );
+  return permute(points, sorted);
+}
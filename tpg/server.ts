@@ -0,0 +1,264 @@
+import { parseArgs } from "util";
+import { z } from "zod";
+import { formatIssuePath } from "./config";
+import { createClickHouseRowSource, type LogRowSource } from "./clickhouse";
+import { loadDBCConfig } from "./dbc";
+import {
+  buildUDPLogResponse,
+  decodeLogRow,
+  toParsedLogMessage,
+  type DecodeOptions,
+  type DecodedPoint,
+  type LogRowWithDateAndMessageIDAndType,
+  type ParsedLogMessage,
+  type UDPLogResponse,
+} from "./index";
+
+/* ============================
+ * Schemas & Types
+ * ============================ */
+
+// Accepts epoch ms (a number or all-digit string) or anything Date.parse understands (ISO 8601)
+const TimeSchema = z.union([z.number(), z.string()]).transform((value, ctx) => {
+  const time =
+    typeof value === "number"
+      ? value
+      : /^\d+$/.test(value)
+      ? Number(value)
+      : Date.parse(value);
+  if (Number.isNaN(time)) {
+    ctx.addIssue({ code: "custom", message: `Invalid time '${value}'` });
+    return z.NEVER;
+  }
+  return time;
+});
+
+const LogRowSchema = z.object({
+  date: z.union([z.string(), z.number()]).transform(String), // epoch ms
+  message_id: z.number().nullable(),
+  log: z.array(z.number().int().min(0).max(255)),
+  type: z.enum(["sb_can0", "sb_can1", "dnr_udp"]),
+});
+
+// A string or a list of strings, since query parameters may repeat
+const StringListSchema = z
+  .union([z.string(), z.array(z.string())])
+  .transform((value) => (Array.isArray(value) ? value : [value]))
+  .optional();
+
+// Either raw rows, or a swarmbot and time range to fetch them for
+const DecodeRequestSchema = z
+  .object({
+    rows: z.array(LogRowSchema).optional(),
+    swarmbotId: z.string().optional(),
+    from: TimeSchema.optional(),
+    to: TimeSchema.optional(),
+    sender: StringListSchema,
+    messageId: StringListSchema,
+    label: StringListSchema,
+  })
+  .refine(
+    (request) =>
+      request.rows !== undefined ||
+      (request.swarmbotId !== undefined &&
+        request.from !== undefined &&
+        request.to !== undefined),
+    { message: "Provide either rows, or swarmbotId with from and to" }
+  );
+
+export type DecodeRequest = z.infer<typeof DecodeRequestSchema>;
+
+/**
+ * Lists a point must match, each omitted list matching everything.
+ */
+export interface PointFilter {
+  sender?: string[];
+  messageId?: string[]; // hex, case-insensitive
+  label?: string[];
+}
+
+export interface DecodeServerOptions {
+  /** Fetches rows for swarmbotId/from/to requests. Defaults to the ClickHouse source. */
+  rowSource?: LogRowSource;
+  /**
+   * Builds the decoder options for each request, e.g. a config resolver. Called per request,
+   * so stateful options such as a changeFilter are never shared between requests.
+   */
+  createDecodeOptions?: () => DecodeOptions;
+}
+
+/* ============================
+ * Helpers
+ * ============================ */
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return Response.json(body, { status });
+}
+
+/**
+ * Reads decode parameters from a POST body or GET query string (repeatable `sender`,
+ * `messageId` and `label`).
+ */
+async function readDecodeRequest(request: Request): Promise<unknown> {
+  if (request.method === "POST") return request.json();
+
+  const params = new URL(request.url).searchParams;
+  const input: Record<string, string | string[]> = {};
+  for (const key of new Set(params.keys())) {
+    const values = params.getAll(key);
+    input[key] = values.length === 1 ? values[0] ?? "" : values;
+  }
+  return input;
+}
+
+/**
+ * True when a point or parsed message matches every given filter list.
+ */
+export function matchesPointFilter(
+  point: Pick<DecodedPoint, "sender" | "messageId" | "label">,
+  filter: PointFilter
+): boolean {
+  const { sender, messageId, label } = filter;
+  return (
+    (!sender || sender.includes(point.sender)) &&
+    (!messageId ||
+      messageId.some(
+        (id) => id.toLowerCase() === point.messageId.toLowerCase()
+      )) &&
+    (!label || label.includes(point.label))
+  );
+}
+
+/**
+ * Reads repeatable `sender`, `messageId` and `label` query parameters.
+ */
+export function readPointFilter(params: URLSearchParams): PointFilter {
+  const filter: PointFilter = {};
+  for (const key of ["sender", "messageId", "label"] as const) {
+    const values = params.getAll(key);
+    if (values.length > 0) filter[key] = values;
+  }
+  return filter;
+}
+
+/* ============================
+ * Handler
+ * ============================ */
+
+/**
+ * Decodes the rows given in (or fetched for) a request and returns the filtered response shape.
+ */
+export async function decodeRequest(
+  request: DecodeRequest,
+  options: DecodeServerOptions = {}
+): Promise<UDPLogResponse> {
+  const { rowSource = createClickHouseRowSource(), createDecodeOptions } =
+    options;
+  const decodeOptions = createDecodeOptions?.() ?? {};
+  const parsed: ParsedLogMessage[] = [];
+  const collect = (point: DecodedPoint) => {
+    const message = toParsedLogMessage(point);
+    if (matchesPointFilter(message, request)) parsed.push(message);
+  };
+
+  const rows:
+    | LogRowWithDateAndMessageIDAndType[]
+    | AsyncIterable<LogRowWithDateAndMessageIDAndType> =
+    request.rows ??
+    rowSource({
+      swarmbotId: request.swarmbotId ?? "",
+      from: request.from ?? 0,
+      to: request.to ?? 0,
+    });
+  for await (const row of rows) decodeLogRow(row, collect, decodeOptions);
+
+  return buildUDPLogResponse(parsed);
+}
+
+/**
+ * Routes one HTTP request:
+ * - `GET /health` answers "ok".
+ * - `POST /decode` takes a JSON DecodeRequest; `GET /decode` takes the same fields as query parameters.
+ */
+export async function handleRequest(
+  request: Request,
+  options: DecodeServerOptions = {}
+): Promise<Response> {
+  const { pathname } = new URL(request.url);
+
+  if (pathname === "/health") return new Response("ok");
+  if (pathname !== "/decode") {
+    return jsonResponse({ error: "Not found" }, 404);
+  }
+  if (request.method !== "GET" && request.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  let input: unknown;
+  try {
+    input = await readDecodeRequest(request);
+  } catch {
+    return jsonResponse({ error: "Body is not valid JSON" }, 400);
+  }
+
+  const result = DecodeRequestSchema.safeParse(input);
+  if (!result.success) {
+    return jsonResponse(
+      {
+        error: "Invalid decode request",
+        issues: result.error.issues.map((issue) => ({
+          path: formatIssuePath(issue.path),
+          message: issue.message,
+        })),
+      },
+      400
+    );
+  }
+
+  try {
+    return jsonResponse(await decodeRequest(result.data, options));
+  } catch (error) {
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : String(error) },
+      502
+    );
+  }
+}
+
+/**
+ * Starts the decode server. The port defaults to $PORT, then 3000.
+ */
+export function startDecodeServer(
+  options: DecodeServerOptions & { port?: number } = {}
+) {
+  const { port = Number(process.env.PORT) || 3000, ...handlerOptions } =
+    options;
+  return Bun.serve({
+    port,
+    fetch: (request) => handleRequest(request, handlerOptions),
+  });
+}
+
+/* ============================
+ * CLI
+ * `bun run server.ts [--dbc-can0 bus0.dbc] [--dbc-can1 bus1.dbc]` serves the decoder on $PORT
+ * (default 3000), decoding each bus's CAN rows with the given DBC file.
+ * ============================ */
+
+if (import.meta.main) {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      "dbc-can0": { type: "string" },
+      "dbc-can1": { type: "string" },
+    },
+  });
+  const canConfig = await loadDBCConfig({
+    sb_can0: values["dbc-can0"],
+    sb_can1: values["dbc-can1"],
+  });
+  const server = startDecodeServer({
+    createDecodeOptions: () => ({ canConfig }),
+  });
+  console.log(`tpg decode server listening on ${server.url}`);
+}
@@ -0,0 +1,88 @@
+import {
+  decodeLogRow,
+  type DecodeOptions,
+  type DecodedPoint,
+  type LogRowWithDateAndMessageIDAndType,
+} from "./index";
+
+/* ============================
+ * Types
+ * ============================ */
+
+export interface DecodeStreamOptions extends DecodeOptions {
+  /**
+   * Number of decoded points collected before a batch is yielded.
+   * A batch can exceed this by the points of a single row. Defaults to 1000.
+   */
+  batchSize?: number;
+}
+
+type RowSource =
+  | AsyncIterable<LogRowWithDateAndMessageIDAndType>
+  | Iterable<LogRowWithDateAndMessageIDAndType>;
+
+/* ============================
+ * Constants
+ * ============================ */
+
+const DEFAULT_BATCH_SIZE = 1000;
+
+/* ============================
+ * Streaming
+ * ============================ */
+
+/**
+ * Decodes raw UDP log rows as they arrive, yielding batches of decoded points.
+ * Only the current batch is held in memory, so sources can be arbitrarily long.
+ */
+export async function* decodeUDPLogStream(
+  rows: RowSource,
+  options: DecodeStreamOptions = {}
+): AsyncGenerator<DecodedPoint[]> {
+  const batchSize = Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE);
+  let batch: DecodedPoint[] = [];
+  const emit = (point: DecodedPoint) => {
+    batch.push(point);
+  };
+
+  for await (const row of rows) {
+    decodeLogRow(row, emit, options);
+    if (batch.length >= batchSize) {
+      yield batch;
+      batch = [];
+    }
+  }
+
+  if (batch.length > 0) {
+    yield batch;
+  }
+}
+
+/**
+ * Reads newline-delimited JSON rows (ClickHouse `JSONEachRow`, or a `.jsonl` file)
+ * from a byte or text stream, e.g. `Bun.file(path).stream()` or a fetch body.
+ */
+export async function* readJSONEachRow(
+  source: AsyncIterable<Uint8Array | string>
+): AsyncGenerator<LogRowWithDateAndMessageIDAndType> {
+  const decoder = new TextDecoder();
+  let buffered = "";
+
+  for await (const chunk of source) {
+    buffered +=
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+
+    let newlineIndex = buffered.indexOf("\n");
+    while (newlineIndex !== -1) {
+      const line = buffered.slice(0, newlineIndex).trim();
+      buffered = buffered.slice(newlineIndex + 1);
+      if (line) yield JSON.parse(line) as LogRowWithDateAndMessageIDAndType;
+      newlineIndex = buffered.indexOf("\n");
+    }
+  }
+
+  const rest = (buffered + decoder.decode()).trim();
+  if (rest) yield JSON.parse(rest) as LogRowWithDateAndMessageIDAndType;
+}
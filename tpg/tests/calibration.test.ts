@@ -0,0 +1,157 @@
+import { describe, expect, test } from "bun:test";
+import {
+  findCalibrationChangesBetweenFills,
+  formatCalibrationReport,
+  parseCalibrationNames,
+  trackCalibration,
+} from "../calibration.ts";
+import { encodeUDPMessage } from "../encoder.ts";
+import type { FillSession } from "../fills.ts";
+import {
+  UDP_HEADER_LENGTH,
+  type LogRowWithDateAndMessageIDAndType,
+} from "../index.ts";
+import { float32Bits, udpRow } from "./helpers.ts";
+
+const REAL = 9;
+const DINT = 7;
+
+// "Var Type" has no decoder type, so the encoder leaves it out; it sits at payload byte 3
+function calibrationRow(
+  date: number,
+  deviceName: "dock" | "swarmbot",
+  varType: number,
+  values: Record<string, number | bigint>,
+  sourceId = 0
+): LogRowWithDateAndMessageIDAndType {
+  const log = encodeUDPMessage(
+    deviceName,
+    deviceName === "dock" ? 6 : 3,
+    values
+  );
+  log[2] = sourceId & 0xff;
+  log[3] = sourceId >> 8;
+  log[UDP_HEADER_LENGTH + 3] = varType;
+  return udpRow(log, date);
+}
+
+const dockValue = (
+  date: number,
+  id: number,
+  value: number,
+  resp = 240,
+  sourceId = 0
+) =>
+  calibrationRow(
+    date,
+    "dock",
+    REAL,
+    { "ID Resp": id, Resp: resp, "Value Resp": float32Bits(value) },
+    sourceId
+  );
+
+const names = parseCalibrationNames({
+  dock: { "12": { name: "Flow meter K-factor", unit: "pulses/L" } },
+});
+
+describe("calibration history", () => {
+  const parameters = trackCalibration(
+    [
+      dockValue(1000, 12, 450),
+      dockValue(2000, 12, 450),
+      dockValue(3000, 12, 0, 15), // Fail carries no value
+      dockValue(5000, 12, 460.5),
+      calibrationRow(6000, "swarmbot", DINT, {
+        "ID Req": 4,
+        Req: 255,
+        Index1: 1,
+        Value: 2 ** 32 - 3,
+      }),
+      calibrationRow(6500, "swarmbot", DINT, { "ID Req": 4, Req: 0 }),
+      dockValue(9000, 12, 470),
+    ],
+    { names }
+  );
+
+  test("keeps each parameter's current value and changes", () => {
+    expect(parameters).toEqual([
+      {
+        device: "dock",
+        sourceId: 0,
+        paramId: 12,
+        index1: 0,
+        index2: 0,
+        name: "Flow meter K-factor",
+        unit: "pulses/L",
+        varType: "REAL",
+        current: 470,
+        lastSeen: 9000,
+        history: [
+          { timestamp: 1000, value: 450, previous: null },
+          { timestamp: 5000, value: 460.5, previous: 450 },
+          { timestamp: 9000, value: 470, previous: 460.5 },
+        ],
+      },
+      {
+        device: "swarmbot",
+        sourceId: 0,
+        paramId: 4,
+        index1: 1,
+        index2: 0,
+        name: null,
+        unit: null,
+        varType: "DINT",
+        current: -3,
+        lastSeen: 6000,
+        history: [{ timestamp: 6000, value: -3, previous: null }],
+      },
+    ]);
+  });
+
+  test("flags changes made between fills", () => {
+    const fill = (refillId: number, start: number, end: number) =>
+      ({ refillId, start, end }) as FillSession;
+    const changes = findCalibrationChangesBetweenFills(parameters, [
+      fill(1, 500, 1500),
+      fill(2, 7000, 8000),
+      // The change at 5000 falls inside this fill
+      fill(3, 4000, 5500),
+    ]);
+
+    expect(
+      changes.map((change) => [
+        change.change.timestamp,
+        change.previousRefillId,
+        change.nextRefillId,
+      ])
+    ).toEqual([[9000, 2, null]]);
+    expect(formatCalibrationReport(parameters, changes)).toContain(
+      "dock 0000 param 12 Flow meter K-factor: 460.5 pulses/L -> 470 pulses/L after refill 2"
+    );
+  });
+});
+
+describe("calibration history of several docks", () => {
+  test("keeps a history per dock", () => {
+    const parameters = trackCalibration([
+      dockValue(1000, 12, 450, 240, 0x0a01),
+      dockValue(2000, 12, 500, 240, 0x0b02),
+      dockValue(3000, 12, 450, 240, 0x0a01),
+      dockValue(4000, 12, 500, 240, 0x0b02),
+    ]);
+
+    expect(
+      parameters.map((parameter) => [
+        parameter.sourceId,
+        parameter.current,
+        parameter.history.length,
+      ])
+    ).toEqual([
+      [0x0a01, 450, 1],
+      [0x0b02, 500, 1],
+    ]);
+    expect(formatCalibrationReport(parameters)).toContain(
+      "dock 0b02 param 12 (REAL): 500"
+    );
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, expect, test } from "bun:test";
+import {
+  decodeCANLogRow,
+  getRawSignalValue,
+  type CanConfig,
+  type CanSignal,
+} from "../can.ts";
+import { ConfigValidationError, parseCanConfig } from "../config.ts";
+import { encodeUDPMessage } from "../encoder.ts";
+import {
+  transformUDPLogToTimeSeries,
+  type DecodedPoint,
+  type LogRowWithDateAndMessageIDAndType,
+} from "../index.ts";
+import { udpRow } from "./helpers.ts";
+
+const signal = (overrides: Partial<CanSignal>): CanSignal => ({
+  name: "Signal",
+  startBit: 0,
+  length: 8,
+  byteOrder: "little_endian",
+  signed: false,
+  factor: 1,
+  offset: 0,
+  unit: "",
+  ...overrides,
+});
+
+const config: CanConfig = {
+  sb_can0: {
+    "256": {
+      name: "Motor",
+      length: 8,
+      signals: [
+        signal({ name: "Speed", startBit: 0, length: 16, unit: "RPM" }),
+        signal({
+          name: "Temperature",
+          startBit: 16,
+          length: 8,
+          signed: true,
+          factor: 0.5,
+          offset: 10,
+          unit: "degC",
+        }),
+        signal({
+          name: "State",
+          startBit: 24,
+          length: 2,
+          enum: { "0": "Off", "1": "On" },
+        }),
+      ],
+    },
+  },
+  sb_can1: {},
+};
+
+function canRow(
+  type: "sb_can0" | "sb_can1",
+  messageId: number,
+  log: number[]
+): LogRowWithDateAndMessageIDAndType {
+  return { date: "1000", log, message_id: messageId, type };
+}
+
+describe("CAN decoder", () => {
+  describe("Signal extraction", () => {
+    test("reads Intel (little-endian) signals", () => {
+      expect(getRawSignalValue([0x34, 0x12], signal({ length: 16 }))).toBe(
+        0x1234n
+      );
+    });
+
+    test("reads Motorola (big-endian) signals from the MSB start bit", () => {
+      expect(
+        getRawSignalValue(
+          [0x12, 0x34],
+          signal({ startBit: 7, length: 16, byteOrder: "big_endian" })
+        )
+      ).toBe(0x1234n);
+    });
+
+    test("sign-extends signed signals and rejects short frames", () => {
+      expect(
+        getRawSignalValue([0, 0xff], signal({ startBit: 8, signed: true }))
+      ).toBe(-1n);
+      expect(getRawSignalValue([0], signal({ startBit: 8 }))).toBeNull();
+    });
+  });
+
+  describe("Row decoding", () => {
+    test("scales signals and resolves enums by message_id", () => {
+      const points: DecodedPoint[] = [];
+      decodeCANLogRow(
+        canRow("sb_can0", 256, [0xe8, 0x03, 0xfe, 0x01, 0, 0, 0, 0]),
+        (point) => points.push(point),
+        config
+      );
+
+      expect(points.map((point) => [point.label, point.value])).toEqual([
+        ["Speed", 1000],
+        ["Temperature", 9],
+        ["State", 1],
+      ]);
+      expect(points[0]?.id).toBe("sb_can0_100_Speed");
+      expect(points[0]?.unit).toBe("RPM");
+      expect(points[2]?.enumLabel).toBe("On");
+    });
+
+    test("ignores IDs that are not configured on the row's bus", () => {
+      const points: DecodedPoint[] = [];
+      decodeCANLogRow(
+        canRow("sb_can1", 256, [0, 0, 0, 0, 0, 0, 0, 0]),
+        (point) => points.push(point),
+        config
+      );
+      expect(points).toEqual([]);
+    });
+
+    test("decodes UDP and CAN rows of mixed logs each by their own config", () => {
+      const udpFrame = encodeUDPMessage("dock", 2, { "Fuel Level": 50 });
+      const parsed = transformUDPLogToTimeSeries(
+        [
+          canRow("sb_can0", 256, [0xe8, 0x03, 0xfe, 0x01, 0, 0, 0, 0]),
+          udpRow(udpFrame, 1000),
+          // A UDP-shaped payload on an unconfigured CAN ID decodes to nothing
+          canRow("sb_can0", 0x123, udpFrame),
+        ],
+        { canConfig: config }
+      );
+
+      expect(parsed.slice(0, 3).map((entry) => entry.id)).toEqual([
+        "sb_can0_100_Speed",
+        "sb_can0_100_Temperature",
+        "sb_can0_100_State",
+      ]);
+      expect(parsed.slice(3).every((entry) => entry.sender === "dock")).toBe(
+        true
+      );
+      expect(
+        parsed.find((entry) => entry.label === "Fuel Level")?.series
+      ).toEqual([[1000, 50]]);
+    });
+  });
+
+  test("validates CAN configs with every issue's path", () => {
+    expect(parseCanConfig(config)).toEqual(config);
+    try {
+      parseCanConfig({ sb_can0: { "1": { name: "Broken", signals: [] } } });
+      throw new Error("expected validation to fail");
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigValidationError);
+      expect(
+        (error as ConfigValidationError).issues.map((issue) => issue.path)
+      ).toEqual(['sb_can0."1".length', "sb_can1"]);
+    }
+  });
+});
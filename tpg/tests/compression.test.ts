@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+import { createChangeOnlyFilter } from "../compression.ts";
+import {
+  transformUDPLogToTimeSeries,
+  type ParsedLogMessage,
+} from "../index.ts";
+import { transformUDPLogToSeries } from "../series.ts";
+import { messageRow } from "./helpers.ts";
+
+function timestampsOf(parsed: ParsedLogMessage[], label: string): number[] {
+  return parsed
+    .filter((entry) => entry.label === label)
+    .map((entry) => entry.series[0]?.[0] ?? NaN);
+}
+
+describe("change-only compression", () => {
+  test("drops repeated values of enum fields", () => {
+    const rows = [0, 1, 2, 3].map((second) =>
+      messageRow(second * 1000, "dock", 4, { Active: second === 3 ? 255 : 0 })
+    );
+    const parsed = transformUDPLogToTimeSeries(rows, {
+      changeFilter: createChangeOnlyFilter(),
+    });
+    expect(timestampsOf(parsed, "Active")).toEqual([0, 3000]);
+  });
+
+  test("keeps analog values only once they leave the deadband", () => {
+    // Pump Pressure is in Bar; the deadband compares against the last kept value
+    const pressures = [1.0, 1.004, 1.008, 1.012, 1.013];
+    const rows = pressures.map((pressure, i) =>
+      messageRow(i * 1000, "dock", 3, { "Pump Pressure": pressure })
+    );
+    const [series] = transformUDPLogToSeries(rows, {
+      changeFilter: createChangeOnlyFilter({ deadbands: { Bar: 0.01 } }),
+    }).filter((entry) => entry.label === "Pump Pressure");
+
+    expect(Array.from(series?.timestamps ?? [])).toEqual([0, 3000]);
+  });
+
+  test("sends a heartbeat for unchanged series", () => {
+    const rows = [0, 20, 40, 60, 80].map((second) =>
+      messageRow(second * 1000, "dock", 4, { Active: 0 })
+    );
+    const parsed = transformUDPLogToTimeSeries(rows, {
+      changeFilter: createChangeOnlyFilter({ heartbeatSeconds: 30 }),
+    });
+    expect(timestampsOf(parsed, "Active")).toEqual([0, 40000, 80000]);
+  });
+
+  test("tracks each series separately", () => {
+    const filter = createChangeOnlyFilter();
+    const parsed = transformUDPLogToTimeSeries(
+      [
+        messageRow(0, "dock", { prefix: 16, instance: 1 }, { "Fill Type": 1 }),
+        messageRow(0, "dock", { prefix: 16, instance: 2 }, { "Fill Type": 1 }),
+        messageRow(
+          1000,
+          "dock",
+          { prefix: 16, instance: 1 },
+          { "Fill Type": 1 }
+        ),
+      ],
+      { changeFilter: filter }
+    );
+    expect(timestampsOf(parsed, "Valve 1 / Fill Type")).toEqual([0]);
+    expect(timestampsOf(parsed, "Valve 2 / Fill Type")).toEqual([0]);
+
+    filter.reset();
+    const again = transformUDPLogToTimeSeries(
+      [
+        messageRow(
+          2000,
+          "dock",
+          { prefix: 16, instance: 1 },
+          { "Fill Type": 1 }
+        ),
+      ],
+      { changeFilter: filter }
+    );
+    expect(timestampsOf(again, "Valve 1 / Fill Type")).toEqual([2000]);
+  });
+});
@@ -0,0 +1,129 @@
+import { afterAll, afterEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, renameSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { stringify as stringifyYAML } from "yaml";
+import {
+  ConfigValidationError,
+  loadUdpConfigFile,
+  parseUdpConfig,
+  watchUdpConfigFile,
+} from "../config.ts";
+import { encodeUDPMessage } from "../encoder.ts";
+import {
+  getUdpConfig,
+  setUdpConfig,
+  transformUDPLogToTimeSeries,
+  type UdpConfig,
+} from "../index.ts";
+import { udpConfig } from "../udp_config.ts";
+import { udpRow, withRenamedFuelLevel } from "./helpers.ts";
+
+const tempDir = mkdtempSync(join(tmpdir(), "tpg-config-"));
+
+afterEach(() => {
+  setUdpConfig(udpConfig);
+});
+
+afterAll(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("UDP config loading", () => {
+  test("the built-in config passes schema validation", () => {
+    expect(parseUdpConfig(udpConfig)).toEqual(udpConfig);
+  });
+
+  test("reports every issue with its precise path", () => {
+    const config = structuredClone(udpConfig);
+    const wrongType = config["Dock Messages"].Prefixes["7"]?.Fields[4];
+    const noBytes = config["SwarmBot Messages"].Messages["2"]?.Fields[1];
+    if (!wrongType || !noBytes) throw new Error("fixture fields are missing");
+    Object.assign(wrongType, { type: "uint12_t" });
+    Reflect.deleteProperty(noBytes, "bytes");
+
+    try {
+      parseUdpConfig(config, "broken.json");
+      throw new Error("expected validation to fail");
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigValidationError);
+      const paths = (error as ConfigValidationError).issues.map(
+        (issue) => issue.path
+      );
+      expect(paths).toEqual([
+        `"Dock Messages".Prefixes."7".Fields[4].type`,
+        `"SwarmBot Messages".Messages."2".Fields[1].bytes`,
+      ]);
+      expect((error as Error).message).toContain("broken.json");
+    }
+  });
+
+  test("loads JSON and YAML files", async () => {
+    const jsonPath = join(tempDir, "udp.json");
+    const yamlPath = join(tempDir, "udp.yaml");
+    writeFileSync(jsonPath, JSON.stringify(udpConfig));
+    writeFileSync(yamlPath, stringifyYAML(udpConfig));
+
+    expect(await loadUdpConfigFile(jsonPath)).toEqual(udpConfig);
+    expect(await loadUdpConfigFile(yamlPath)).toEqual(udpConfig);
+  });
+
+  test("hot-swaps the decoder's config when the watched file changes", async () => {
+    const path = join(tempDir, "watched.json");
+    writeFileSync(path, JSON.stringify(withRenamedFuelLevel("Fuel A")));
+
+    let resolveReload: (config: UdpConfig) => void = () => {};
+    const reloaded = new Promise<UdpConfig>((resolve) => {
+      resolveReload = resolve;
+    });
+    const stop = await watchUdpConfigFile(path, { onReload: resolveReload });
+
+    try {
+      const frame = encodeUDPMessage("dock", 2, { "Fuel A": 42 });
+      const decode = () =>
+        transformUDPLogToTimeSeries([udpRow(frame, 1000)]).map(
+          (entry) => entry.label
+        );
+
+      expect(decode()).toContain("Fuel A");
+
+      writeFileSync(path, JSON.stringify(withRenamedFuelLevel("Fuel B")));
+      await reloaded;
+
+      expect(getUdpConfig()).toEqual(withRenamedFuelLevel("Fuel B"));
+      expect(decode()).toContain("Fuel B");
+    } finally {
+      stop();
+    }
+  });
+
+  test("keeps following a file saved by renaming a temp file over it", async () => {
+    const path = join(tempDir, "renamed.json");
+    writeFileSync(path, JSON.stringify(withRenamedFuelLevel("Fuel A")));
+
+    const reloads: ((config: UdpConfig) => void)[] = [];
+    const nextReload = () =>
+      new Promise<UdpConfig>((resolve) => reloads.push(resolve));
+    const stop = await watchUdpConfigFile(path, {
+      onReload: (config) => reloads.shift()?.(config),
+    });
+
+    try {
+      for (const label of ["Fuel B", "Fuel C"]) {
+        const reloaded = nextReload();
+        const tempPath = join(tempDir, `renamed.json.${label}.tmp`);
+        writeFileSync(tempPath, JSON.stringify(withRenamedFuelLevel(label)));
+        renameSync(tempPath, path);
+        expect(await reloaded).toEqual(withRenamedFuelLevel(label));
+      }
+    } finally {
+      stop();
+    }
+  });
+
+  test("rejects unsupported file types", async () => {
+    const path = join(tempDir, "udp.txt");
+    writeFileSync(path, "{}");
+    await expect(loadUdpConfigFile(path)).rejects.toThrow("Unsupported");
+  });
+});
@@ -0,0 +1,130 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { decodeCANLogRow } from "../can.ts";
+import { loadDBCConfig, parseDBC } from "../dbc.ts";
+import {
+  transformUDPLogToTimeSeries,
+  type DecodedPoint,
+  type LogRowWithDateAndMessageIDAndType,
+} from "../index.ts";
+import { decodeRequest } from "../server.ts";
+import { decodeUDPLogStream } from "../stream.ts";
+
+const DBC = `VERSION ""
+
+NS_ :
+	CM_
+	VAL_
+
+BS_:
+
+BU_: Controller Motor
+
+BO_ 256 MotorStatus: 8 Motor
+ SG_ Speed : 0|16@1+ (0.25,0) [0|16383.75] "RPM" Controller
+ SG_ Temperature : 23|8@0- (1,-40) [-168|87] "degC" Controller
+ SG_ State : 24|2@1+ (1,0) [0|3] "" Controller
+
+BO_ 2566843902 Diagnostics: 8 Vector__XXX
+ SG_ Page M : 0|8@1+ (1,0) [0|255] "" Controller
+ SG_ Voltage m0 : 8|16@1+ (0.001,0) [0|65.535] "V" Controller
+ SG_ Current m1 : 8|16@1- (0.01,0) [-327.68|327.67] "A" Controller
+
+CM_ SG_ 256 Speed "Shaft speed";
+VAL_ 256 State 0 "Off" 1 "On"
+  2 "Fault" ;
+`;
+
+const tempDir = mkdtempSync(join(tmpdir(), "tpg-dbc-"));
+
+afterAll(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("DBC import", () => {
+  const config = parseDBC(DBC);
+
+  test("parses messages keyed by CAN ID, stripping the extended flag", () => {
+    expect(Object.keys(config)).toEqual(["256", String(0x18feedfe)]);
+    expect(config["256"]?.name).toBe("MotorStatus");
+    expect(config["256"]?.sender).toBe("Motor");
+    expect(config[String(0x18feedfe)]?.sender).toBeUndefined();
+  });
+
+  test("parses byte order, sign, scaling, units and value tables", () => {
+    const [speed, temperature, state] = config["256"]?.signals ?? [];
+    expect(speed).toEqual({
+      name: "Speed",
+      startBit: 0,
+      length: 16,
+      byteOrder: "little_endian",
+      signed: false,
+      factor: 0.25,
+      offset: 0,
+      unit: "RPM",
+    });
+    expect(temperature?.byteOrder).toBe("big_endian");
+    expect(temperature?.signed).toBe(true);
+    expect(temperature?.offset).toBe(-40);
+    expect(state?.enum).toEqual({ "0": "Off", "1": "On", "2": "Fault" });
+  });
+
+  test("produces configs the CAN decoder can use, including multiplexing", () => {
+    const points: DecodedPoint[] = [];
+    decodeCANLogRow(
+      {
+        date: "1000",
+        log: [1, 0x9c, 0xff, 0, 0, 0, 0, 0],
+        message_id: 0x18feedfe,
+        type: "sb_can1",
+      },
+      (point) => points.push(point),
+      { sb_can0: {}, sb_can1: config }
+    );
+    expect(points.map((point) => [point.label, point.value])).toEqual([
+      ["Page", 1],
+      ["Current", -1],
+    ]);
+  });
+
+  test("reports malformed statements with their line number", () => {
+    expect(() => parseDBC("BO_ 1 Broken: 8 Node\n SG_ Oops : nope")).toThrow(
+      "DBC line 2"
+    );
+  });
+
+  test("reaches every decoder through DecodeOptions.canConfig", async () => {
+    const path = join(tempDir, "bus1.dbc");
+    writeFileSync(path, DBC);
+    const canConfig = await loadDBCConfig({ sb_can1: path });
+    expect(canConfig.sb_can1).toEqual(config);
+
+    const rows: LogRowWithDateAndMessageIDAndType[] = [
+      {
+        date: "1000",
+        log: [1, 0x9c, 0xff, 0, 0, 0, 0, 0],
+        message_id: 0x18feedfe,
+        type: "sb_can1",
+      },
+    ];
+    const labels = (points: { label: string }[]) =>
+      points.map((point) => point.label);
+
+    expect(labels(transformUDPLogToTimeSeries(rows, { canConfig }))).toEqual([
+      "Page",
+      "Current",
+    ]);
+    const streamed: DecodedPoint[] = [];
+    for await (const batch of decodeUDPLogStream(rows, { canConfig })) {
+      streamed.push(...batch);
+    }
+    expect(labels(streamed)).toEqual(["Page", "Current"]);
+    const response = await decodeRequest(
+      { rows },
+      { createDecodeOptions: () => ({ canConfig }) }
+    );
+    expect(labels(response.parsed)).toEqual(["Page", "Current"]);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createDiagnostics,
+  formatDiagnostics,
+  type DiagnosticEvent,
+} from "../diagnostics.ts";
+import { transformUDPLogToTimeSeries } from "../index.ts";
+import { messageRow, udpRow } from "./helpers.ts";
+
+// Pin Measure cut off before its IO_ID byte, so the dependent labels are unresolvable
+const PIN_MEASURE_FRAME = [
+  1, 1, 145, 245, 255, 255, 3, 7, 1, 0, 0, 255, 255, 255, 255, 255, 0, 1, 0,
+];
+const pinMeasureRows = [1000, 2000, 3000].map((date) =>
+  udpRow(PIN_MEASURE_FRAME, date)
+);
+
+describe("decoder diagnostics", () => {
+  test("summarises repeated problems per message/field with samples", () => {
+    const diagnostics = createDiagnostics({ maxSamples: 2 });
+    transformUDPLogToTimeSeries(pinMeasureRows, { diagnostics });
+
+    // The cut-off fields themselves are reported too
+    const entries = diagnostics
+      .entries()
+      .filter((entry) => entry.reason === "unresolved_dependent_label");
+    expect(entries.map((entry) => entry.field)).toEqual([
+      "Decoded | Voltage",
+      "Raw | Current",
+    ]);
+
+    const [voltage] = entries;
+    expect(voltage).toMatchObject({
+      level: "warn",
+      reason: "unresolved_dependent_label",
+      sender: "dock",
+      messageId: "0703",
+      count: 3,
+      firstTimestamp: 1000,
+      lastTimestamp: 3000,
+    });
+    expect(voltage?.samples).toEqual([
+      { timestamp: 1000, messageLength: 19, offsets: [19] },
+      { timestamp: 2000, messageLength: 19, offsets: [19] },
+    ]);
+    expect(formatDiagnostics(entries)).toContain(
+      "dock 0703 'Decoded | Voltage' unresolved_dependent_label x3"
+    );
+  });
+
+  test("reports frames with an invalid length", () => {
+    const diagnostics = createDiagnostics();
+    transformUDPLogToTimeSeries([udpRow([1, 1, 145, 245], 1000)], {
+      diagnostics,
+    });
+
+    expect(diagnostics.entries()).toMatchObject([
+      { reason: "frame_length", sender: "dock", messageId: "", count: 1 },
+    ]);
+  });
+
+  test("the log level filters what is collected", () => {
+    const events: DiagnosticEvent[] = [];
+    const debug = createDiagnostics({
+      level: "debug",
+      onEvent: (event) => events.push(event),
+    });
+    const silent = createDiagnostics({ level: "error" });
+    // Calibration Param's "Var Type" has no numeric type, which is only worth a debug note
+    const rows = [
+      ...pinMeasureRows,
+      messageRow(4000, "dock", 6, { "ID Resp": 4 }),
+    ];
+    transformUDPLogToTimeSeries(rows, { diagnostics: debug });
+    transformUDPLogToTimeSeries(rows, { diagnostics: silent });
+
+    expect(debug.entries().some((e) => e.reason === "field_skipped")).toBe(
+      true
+    );
+    expect(events.length).toBe(
+      debug.entries().reduce((sum, entry) => sum + entry.count, 0)
+    );
+    expect(silent.entries()).toEqual([]);
+
+    debug.clear();
+    expect(debug.entries()).toEqual([]);
+  });
+});
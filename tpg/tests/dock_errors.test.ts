@@ -0,0 +1,138 @@
+import { describe, expect, test } from "bun:test";
+import { ConfigValidationError } from "../config.ts";
+import {
+  buildDockErrorTimeline,
+  formatDockErrorTimeline,
+  parseErrorCodeTable,
+  toDockErrorRecords,
+} from "../dock_errors.ts";
+import type { LogRowWithDateAndMessageIDAndType } from "../index.ts";
+import { transformUDPLogToSeries } from "../series.ts";
+import { messageRow } from "./helpers.ts";
+
+function dockError(
+  date: number,
+  category: number,
+  code: number,
+  active: boolean,
+  payload = 0n
+): LogRowWithDateAndMessageIDAndType {
+  return messageRow(date, "dock", 4, {
+    "Error Category": category,
+    Active: active ? 0 : 255,
+    "Error Code": code,
+    Payload: payload,
+  });
+}
+
+const codeTable = parseErrorCodeTable({
+  categories: { "3": "Pump" },
+  codes: { "3": { "12": "Overpressure" }, "*": { "1": "E-stop" } },
+});
+
+describe("dock error timeline", () => {
+  const rows = [
+    dockError(1000, 3, 12, true, 2n ** 63n + 1n),
+    dockError(2000, 3, 12, true),
+    dockError(2500, 5, 1, true),
+    dockError(4000, 3, 12, false),
+    // Clearing an error that is not active changes nothing
+    dockError(4500, 9, 9, false),
+    dockError(6000, 3, 12, true),
+  ];
+  const episodes = buildDockErrorTimeline(transformUDPLogToSeries(rows), {
+    codeTable,
+  });
+
+  test("turns active/inactive frames into episodes with text", () => {
+    expect(episodes).toEqual([
+      {
+        category: 3,
+        code: 12,
+        categoryText: "Pump",
+        codeText: "Overpressure",
+        start: 1000,
+        end: 4000,
+        durationMs: 3000,
+        lastSeen: 2000,
+        payload: "9223372036854775809",
+      },
+      {
+        category: 5,
+        code: 1,
+        categoryText: null,
+        codeText: "E-stop",
+        start: 2500,
+        end: null,
+        durationMs: null,
+        lastSeen: 2500,
+        payload: "0",
+      },
+      {
+        category: 3,
+        code: 12,
+        categoryText: "Pump",
+        codeText: "Overpressure",
+        start: 6000,
+        end: null,
+        durationMs: null,
+        lastSeen: 6000,
+        payload: "0",
+      },
+    ]);
+    expect(formatDockErrorTimeline(episodes).split("\n")[0]).toBe(
+      "1970-01-01T00:00:01.000Z error 3/12 Pump / Overpressure: until 1970-01-01T00:00:04.000Z (3.0 s)"
+    );
+  });
+
+  test("lists overlapping chp downtime events per episode", () => {
+    const records = toDockErrorRecords(episodes, "sb-0130", [
+      { downtimeEventID: "a", swarmbotID: "sb-0130", start: 3500, end: 5000 },
+      { downtimeEventID: "b", swarmbotID: "sb-0130", start: 5000, end: 5500 },
+      { downtimeEventID: "c", swarmbotID: "sb-0026", start: 0, end: 9000 },
+    ]);
+
+    expect(records[0]).toEqual({
+      swarmbotID: "sb-0130",
+      start: "1970-01-01T00:00:01.000Z",
+      end: "1970-01-01T00:00:04.000Z",
+      durationHr: 3000 / 3600000,
+      errorCategory: 3,
+      errorCode: 12,
+      errorText: "Pump / Overpressure",
+      payload: "9223372036854775809",
+      downtimeEventIDs: ["a"],
+    });
+    expect(records[1]?.errorText).toBe("Category 5 / E-stop");
+    expect(records[1]?.downtimeEventIDs).toEqual(["a", "b"]);
+    expect(records[2]?.downtimeEventIDs).toEqual([]);
+  });
+
+  test("keeps frames sharing a millisecond apart", () => {
+    const sameMs = buildDockErrorTimeline(
+      transformUDPLogToSeries([
+        dockError(1000, 1, 10, true),
+        dockError(1000, 2, 20, true),
+        dockError(5000, 1, 10, false),
+      ])
+    );
+
+    expect(
+      sameMs.map(({ category, code, start, end }) => ({
+        category,
+        code,
+        start,
+        end,
+      }))
+    ).toEqual([
+      { category: 1, code: 10, start: 1000, end: 5000 },
+      { category: 2, code: 20, start: 1000, end: null },
+    ]);
+  });
+
+  test("rejects malformed code tables", () => {
+    expect(() => parseErrorCodeTable({ codes: { "3": "Pump" } })).toThrow(
+      ConfigValidationError
+    );
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, expect, test } from "bun:test";
+import { encodeUDPMessage, type EncodeValues } from "../encoder.ts";
+import {
+  formatInstanceLabel,
+  transformUDPLogToTimeSeries,
+  type ParsedLogMessage,
+  type UdpConfig,
+} from "../index.ts";
+import { udpConfig } from "../udp_config.ts";
+import { udpRow } from "./helpers.ts";
+
+const TIMESTAMP = 1754803260371;
+
+function decode(log: number[]): ParsedLogMessage[] {
+  return transformUDPLogToTimeSeries([udpRow(log, TIMESTAMP)]);
+}
+
+function valueOf(parsed: ParsedLogMessage[], label: string): number {
+  const entry = parsed.find((message) => message.label === label);
+  expect(entry).toBeDefined();
+  return entry?.series[0]?.[1] ?? NaN;
+}
+
+describe("UDP message encoder", () => {
+  describe("Header", () => {
+    test("stamps device and message IDs little-endian", () => {
+      const frame = encodeUDPMessage("swarmbot", 0x1003, {});
+      expect(frame.slice(0, 2)).toEqual([2, 1]);
+      expect(frame.slice(6, 8)).toEqual([3, 16]);
+    });
+
+    test("builds prefix message IDs from prefix and instance", () => {
+      const frame = encodeUDPMessage("dock", { prefix: 7, instance: 5 }, {});
+      expect(frame.slice(6, 8)).toEqual([5, 7]);
+      expect(frame.length).toBe(16 + 8);
+    });
+  });
+
+  describe("Round trip", () => {
+    test("standard fields on a direct message", () => {
+      const parsed = decode(
+        encodeUDPMessage("dock", 2, {
+          "Fuel Level": 80,
+          "Tank Volume": 1200,
+          "Battery Voltage": 24.5,
+        })
+      );
+      expect(valueOf(parsed, "Fuel Level")).toBe(80);
+      expect(valueOf(parsed, "Tank Volume")).toBe(1200);
+      expect(valueOf(parsed, "Battery Voltage")).toBe(24.5);
+    });
+
+    test("bit fields and dependent labels on a prefix message", () => {
+      const parsed = decode(
+        encodeUDPMessage(
+          "dock",
+          { prefix: 7, instance: 3 },
+          { IO_ID_ID: 5, IO_ID_IsInput: 1, Decoded: 1234, Raw: 56 }
+        )
+      );
+      expect(valueOf(parsed, "Pin ID 3 / IO_ID_ID")).toBe(5);
+      expect(valueOf(parsed, "Pin ID 3 / IO_ID_IsInput")).toBe(1);
+      expect(valueOf(parsed, "Pin ID 3 / Decoded")).toBe(1234);
+      expect(valueOf(parsed, "Pin ID 3 / Raw")).toBe(56);
+    });
+
+    test("multipliers are divided out before writing", () => {
+      const frame = encodeUDPMessage(
+        "mainPLC",
+        { prefix: 5, instance: 1 },
+        { OutputOffDelay: 500 }
+      );
+      expect(frame[16 + 2]).toBe(5);
+      expect(valueOf(decode(frame), "Pin ID 1 / OutputOffDelay")).toBe(500);
+    });
+
+    test("every configured message decodes back to the encoded values", () => {
+      const devices = {
+        dock: udpConfig["Dock Messages"],
+        swarmbot: udpConfig["SwarmBot Messages"],
+        mainPLC: udpConfig["Other Messages"],
+      };
+
+      for (const [deviceName, section] of Object.entries(devices)) {
+        const entries = [
+          ...Object.entries(section.Prefixes).map(
+            ([prefix, entry]) =>
+              [{ prefix: Number(prefix), instance: 1 }, entry] as const
+          ),
+          ...Object.entries(section.Messages).map(
+            ([id, entry]) => [Number(id), entry] as const
+          ),
+        ];
+
+        for (const [selector, entry] of entries) {
+          const values: EncodeValues = {};
+          const expected = new Map<string, number>();
+          for (const field of entry.Fields) {
+            if (field.use_bits === 1 && field.bits) {
+              for (const bit of field.bits) {
+                values[`${field.label}_${bit.Name}`] = field.multiplier;
+              }
+            } else if (field.type) {
+              const label = field.dependent_on
+                ? field.label.split(" | ")[1] ?? field.label
+                : field.label;
+              values[label] = field.multiplier;
+              expected.set(
+                "prefix_description" in entry
+                  ? formatInstanceLabel(entry.prefix_description, 1, label)
+                  : label,
+                field.multiplier
+              );
+            }
+          }
+
+          const parsed = decode(encodeUDPMessage(deviceName, selector, values));
+          for (const [label, value] of expected) {
+            expect(valueOf(parsed, label)).toBe(value);
+          }
+        }
+      }
+    });
+  });
+
+  describe("Errors", () => {
+    test("rejects unknown devices and messages", () => {
+      expect(() => encodeUDPMessage("toaster", 1, {})).toThrow();
+      expect(() => encodeUDPMessage("dock", 0x00ff, {})).toThrow();
+      expect(() =>
+        encodeUDPMessage("dock", { prefix: 99, instance: 0 }, {})
+      ).toThrow();
+    });
+
+    test("rejects unknown labels and out-of-range values", () => {
+      expect(() => encodeUDPMessage("dock", 2, { Nope: 1 })).toThrow();
+      expect(() =>
+        encodeUDPMessage("dock", 2, { "Fuel Level": 256 })
+      ).toThrow();
+      expect(() =>
+        encodeUDPMessage("dock", { prefix: 7, instance: 0 }, { IO_ID_ID: 128 })
+      ).toThrow();
+    });
+
+    test("rejects values that aren't a whole number of raw units", () => {
+      expect(() => encodeUDPMessage("dock", 2, { "Fuel Level": 55.5 })).toThrow(
+        "is not a whole number of raw units"
+      );
+      expect(() =>
+        encodeUDPMessage(
+          "mainPLC",
+          { prefix: 5, instance: 1 },
+          { OutputOffDelay: 550 }
+        )
+      ).toThrow("'OutputOffDelay'");
+      expect(() =>
+        encodeUDPMessage("dock", 2, { "Fuel Level": 0.1 * 3 * 10 * 10 })
+      ).not.toThrow();
+    });
+
+    test("rejects conflicting dependency bits", () => {
+      expect(() =>
+        encodeUDPMessage(
+          "dock",
+          { prefix: 7, instance: 0 },
+          { Decoded: 1, Current: 2 }
+        )
+      ).toThrow();
+    });
+
+    test("rejects values for variants the selector doesn't pick", () => {
+      const fields = udpConfig["Dock Messages"].Messages["2"]?.Fields ?? [];
+      const [mode, reading] = fields;
+      if (!mode || !reading) throw new Error("Dock message 2 has no fields");
+      const config: UdpConfig = {
+        ...udpConfig,
+        "Dock Messages": {
+          Prefixes: {},
+          Messages: {
+            "2": {
+              Description: "Multiplexed",
+              Fields: [
+                mode,
+                {
+                  ...reading,
+                  dependent_on: {
+                    field: mode.label,
+                    variants: [
+                      { when: 1, label: "Low" },
+                      { when: 2, label: "High" },
+                    ],
+                  },
+                },
+              ],
+            },
+          },
+        },
+      };
+
+      expect(() =>
+        encodeUDPMessage("dock", 2, { Low: 1, High: 2 }, { config })
+      ).toThrow("was given both 'Low' and 'High'");
+      expect(() =>
+        encodeUDPMessage("dock", 2, { [mode.label]: 2, Low: 1 }, { config })
+      ).toThrow("Unknown field label(s)");
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, test } from "bun:test";
+import { parquetReadObjects } from "hyparquet";
+import {
+  toExportRecords,
+  toJSONLines,
+  toParquet,
+  toWideCSV,
+} from "../export.ts";
+import { transformUDPLogToSeries } from "../series.ts";
+import { messageRow } from "./helpers.ts";
+
+// Dock Errors: "Active" is an enum, "Payload" a uint64; Water Fill Status carries Bar and L/s
+const series = transformUDPLogToSeries([
+  messageRow(1000, "dock", 4, {
+    "Error Code": 3,
+    Active: 0,
+    Payload: 2n ** 60n + 1n,
+  }),
+  messageRow(2000, "dock", 3, { "Pump Pressure": 1.5 }),
+  messageRow(3000, "dock", 4, { "Error Code": 3, Active: 255 }),
+  messageRow(2000, "swarmbot", 2, {}),
+]);
+
+describe("exports", () => {
+  test("filters by sender and message", () => {
+    const records = toExportRecords(series, {
+      senders: ["dock"],
+      messageIds: ["0004"],
+    });
+    expect(new Set(records.map((record) => record.messageId))).toEqual(
+      new Set(["0004"])
+    );
+
+    expect(
+      toExportRecords(series, { senders: ["swarmbot"] }).every(
+        (r) => r.sender === "swarmbot"
+      )
+    ).toBe(true);
+  });
+
+  test("JSON Lines carry units, enum labels and exact 64-bit values", () => {
+    const lines = toJSONLines(series, { messageIds: ["0004"] })
+      .trimEnd()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+
+    const active = lines.filter((line) => line.label === "Active");
+    expect(active.map((line) => [line.timestamp, line.enumLabel])).toEqual([
+      [1000, "Active"],
+      [3000, "Inactive"],
+    ]);
+    const payload = lines.find((line) => line.label === "Payload");
+    expect(payload.exactValue).toBe((2n ** 60n + 1n).toString());
+    expect(lines.map((line) => line.timestamp)).toEqual(
+      [...lines.map((line) => line.timestamp)].sort((a, b) => a - b)
+    );
+  });
+
+  test("wide CSV aligns fields on timestamps, one column per field id", () => {
+    const csv = toWideCSV(series, {
+      senders: ["dock"],
+      messageIds: ["0003", "0004"],
+    });
+    const [header, ...rows] = csv.trimEnd().split("\n");
+    const columns = header?.split(",") ?? [];
+    expect(columns[0]).toBe("timestamp");
+    expect(columns).toContain("dock_0003_Pump Pressure [Bar]");
+
+    const active = columns.indexOf("dock_0004_Active");
+    const pressure = columns.indexOf("dock_0003_Pump Pressure [Bar]");
+    const cells = rows.map((line) => line.split(","));
+    expect(cells.map((cell) => cell[0])).toEqual(["1000", "2000", "3000"]);
+    expect(cells.map((cell) => cell[active])).toEqual([
+      "Active",
+      "",
+      "Inactive",
+    ]);
+    expect(cells.map((cell) => cell[pressure])).toEqual(["", "1.5", ""]);
+
+    const filled = toWideCSV(series, {
+      messageIds: ["0004"],
+      fillForward: true,
+    });
+    expect(filled.trimEnd().split("\n").length).toBe(3);
+  });
+
+  test("Parquet holds the long-format records", async () => {
+    const buffer = toParquet(series, { messageIds: ["0004"] });
+    const rows = await parquetReadObjects({ file: buffer });
+    const expected = toExportRecords(series, { messageIds: ["0004"] });
+
+    expect(rows.length).toBe(expected.length);
+    const active = rows.find((entry) => entry.label === "Active");
+    expect(active).toMatchObject({
+      sender: "dock",
+      message_id: "0004",
+      enum_label: "Active",
+      value: 0,
+    });
+    expect(new Date(active?.timestamp).getTime()).toBe(1000);
+  });
+});
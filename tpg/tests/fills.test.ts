@@ -0,0 +1,179 @@
+import { describe, expect, test } from "bun:test";
+import { formatFillSessionReport, reconstructFillSessions } from "../fills.ts";
+import { transformUDPLogToSeries } from "../series.ts";
+import { messageRow } from "./helpers.ts";
+
+const swarmbotStatus = (date: number, request: number, refillId: number) =>
+  messageRow(date, "swarmbot", 1, {
+    "Refill Request": request,
+    "Ready To Fill": 1,
+    "Refill ID": refillId,
+  });
+
+const dockStatus = (date: number, fillFinished: number) =>
+  messageRow(date, "dock", 1, {
+    "Ready To Fill": 1,
+    "Fill Finished": fillFinished,
+  });
+
+const tankLevel = (date: number, level: number) =>
+  messageRow(
+    date,
+    "swarmbot",
+    { prefix: 17, instance: 1 },
+    { "Actual Tank Level": level }
+  );
+
+const waterStatus = (date: number, rate: number, delivered: number) =>
+  messageRow(date, "dock", 3, {
+    "Transfer Rate Measured": rate,
+    "Volume Delivered": delivered,
+  });
+
+describe("fill sessions", () => {
+  const rows = [
+    tankLevel(500, 10),
+    // Fill 7: water plus one product, with a dock error, finished by the dock
+    swarmbotStatus(1000, 1, 7),
+    dockStatus(1000, 0),
+    messageRow(1100, "swarmbot", 2, { "Volume Requested": 100 }),
+    messageRow(
+      1100,
+      "swarmbot",
+      { prefix: 16, instance: 2 },
+      { "Fill Type": 2, "Volume Requested": 5 }
+    ),
+    waterStatus(2000, 2, 40),
+    messageRow(2500, "dock", 4, {
+      "Error Category": 3,
+      Active: 0,
+      "Error Code": 12,
+    }),
+    messageRow(2600, "dock", 4, {
+      "Error Category": 3,
+      Active: 0,
+      "Error Code": 12,
+    }),
+    messageRow(2700, "dock", 4, {
+      "Error Category": 3,
+      Active: 255,
+      "Error Code": 12,
+    }),
+    waterStatus(3000, 4, 98),
+    messageRow(
+      3000,
+      "dock",
+      { prefix: 16, instance: 1 },
+      {
+        "Fill Type": 2,
+        Delivered: 1,
+        InjectionState: 4,
+        "Chem Volume Measured": 5,
+      }
+    ),
+    tankLevel(3500, 108),
+    dockStatus(4000, 1),
+    // Still requesting after the dock finished: no new session
+    swarmbotStatus(4100, 1, 7),
+    messageRow(4200, "dock", 10, {
+      "Last Refill ID": 7,
+      "Water Requested": 100,
+      "Water Delivered": 99,
+      "Product 2 Delivered L": 5,
+    }),
+    swarmbotStatus(4300, 0, 7),
+    dockStatus(4300, 0),
+    // Fill 8: withdrawn by the swarmbot
+    swarmbotStatus(10000, 1, 8),
+    waterStatus(11000, 1, 3),
+    swarmbotStatus(12000, 0, 8),
+    // Fill 9: resumed, then the messages stop
+    swarmbotStatus(20000, 2, 9),
+    waterStatus(21000, 1, 1),
+    swarmbotStatus(500000, 2, 9),
+  ];
+  const sessions = reconstructFillSessions(transformUDPLogToSeries(rows));
+
+  test("links requests, statuses and the dock's fill report into a session", () => {
+    expect(sessions.map((session) => session.refillId)).toEqual([7, 8, 9, 9]);
+
+    const [first] = sessions;
+    expect(first).toMatchObject({
+      refillId: 7,
+      resumed: false,
+      start: 1000,
+      end: 4000,
+      outcome: "completed",
+      waterRequested: 100,
+      waterDelivered: 99,
+      meanFlowRate: 3,
+      peakFlowRate: 4,
+      payloadRequests: [
+        { product: 2, fillType: "LiquidChemical", volumeRequested: 5 },
+      ],
+      payloadDeliveries: [
+        {
+          valve: 1,
+          fillType: "LiquidChemical",
+          injectionState: "Finished",
+          delivered: true,
+          chemVolumeMeasured: 5,
+        },
+      ],
+      tankLevels: [{ tank: 1, start: 10, end: 108 }],
+      errors: [
+        { category: 3, code: 12, firstSeen: 2500, lastSeen: 2600, count: 2 },
+      ],
+      report: {
+        waterRequested: 100,
+        waterDelivered: 99,
+        productDelivered: [0, 5, 0, 0, 0, 0, 0],
+      },
+    });
+  });
+
+  test("ends sessions when the request is withdrawn or the messages stop", () => {
+    expect(sessions[1]).toMatchObject({
+      outcome: "aborted",
+      start: 10000,
+      end: 12000,
+      waterDelivered: 3,
+    });
+    expect(sessions[2]).toMatchObject({
+      outcome: "timed_out",
+      resumed: true,
+      end: 21000,
+    });
+    expect(sessions[3]).toMatchObject({
+      outcome: "incomplete",
+      start: 500000,
+    });
+  });
+
+  test("keeps frames sharing a timestamp apart", () => {
+    const sameMs = reconstructFillSessions(
+      transformUDPLogToSeries([
+        // A withdrawn request for fill 7 and a new request for fill 8 in the same millisecond
+        swarmbotStatus(1000, 0, 7),
+        swarmbotStatus(1000, 1, 8),
+        dockStatus(2000, 1),
+      ])
+    );
+
+    expect(sameMs).toHaveLength(1);
+    expect(sameMs[0]).toMatchObject({
+      refillId: 8,
+      start: 1000,
+      end: 2000,
+      outcome: "completed",
+    });
+  });
+
+  test("formats a per-session report", () => {
+    const report = formatFillSessionReport(sessions);
+    expect(report).toContain("Refill 7: completed");
+    expect(report).toContain("water 99.0 L of 100.0 L requested");
+    expect(report).toContain("error 3/12 seen 2x");
+    expect(report).toContain("Refill 9 (resumed): timed_out");
+  });
+});
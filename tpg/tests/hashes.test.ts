@@ -0,0 +1,101 @@
+import { describe, expect, test } from "bun:test";
+import { formatHashReport, toHashValue, trackHashes } from "../hashes.ts";
+import type { LogRowWithDateAndMessageIDAndType } from "../index.ts";
+import { transformUDPLogToSeries } from "../series.ts";
+import { messageRow } from "./helpers.ts";
+
+// Above 2^53, so a Number would lose the low bits
+const HASH_A = 0xfedcba9876543211n;
+const HASH_B = 0xfedcba9876543213n;
+
+function hashRow(
+  date: number,
+  deviceName: "dock" | "swarmbot",
+  hash: bigint
+): LogRowWithDateAndMessageIDAndType {
+  return messageRow(date, deviceName, deviceName === "dock" ? 7 : 6, {
+    Hash: hash,
+  });
+}
+
+describe("hash tracking", () => {
+  const series = transformUDPLogToSeries([
+    hashRow(1000, "dock", HASH_A),
+    hashRow(1000, "swarmbot", HASH_A),
+    // The swarmbot asks for a new hash; the dock takes a while to follow
+    hashRow(2000, "swarmbot", HASH_B),
+    hashRow(3000, "dock", HASH_A),
+    hashRow(5000, "dock", HASH_A),
+    hashRow(6000, "dock", HASH_B),
+  ]);
+
+  test("records hash changes per device losslessly", () => {
+    const { changes } = trackHashes(series, { graceMs: 2500 });
+    expect(changes).toEqual([
+      {
+        source: "dock",
+        timestamp: 1000,
+        hash: HASH_A.toString(),
+        hex: "0xfedcba9876543211",
+        previous: null,
+      },
+      {
+        source: "swarmbot",
+        timestamp: 1000,
+        ...toHashValue(HASH_A),
+        previous: null,
+      },
+      {
+        source: "swarmbot",
+        timestamp: 2000,
+        ...toHashValue(HASH_B),
+        previous: HASH_A.toString(),
+      },
+      {
+        source: "dock",
+        timestamp: 6000,
+        ...toHashValue(HASH_B),
+        previous: HASH_A.toString(),
+      },
+    ]);
+  });
+
+  test("raises a mismatch once the hashes differ past the grace period", () => {
+    const { changes, events } = trackHashes(series, { graceMs: 2500 });
+    expect(events).toEqual([
+      {
+        kind: "mismatch",
+        timestamp: 2000,
+        detectedAt: 5000,
+        dockHash: toHashValue(HASH_A),
+        swarmbotHash: toHashValue(HASH_B),
+      },
+      {
+        kind: "resolved",
+        timestamp: 6000,
+        detectedAt: 6000,
+        dockHash: toHashValue(HASH_B),
+        swarmbotHash: toHashValue(HASH_B),
+      },
+    ]);
+    expect(formatHashReport(changes, events)).toContain(
+      "1970-01-01T00:00:02.000Z MISMATCH: swarmbot set 0xfedcba9876543213, dock has 0xfedcba9876543211"
+    );
+
+    // The dock caught up within a longer grace period
+    expect(trackHashes(series, { graceMs: 5000 }).events).toEqual([]);
+  });
+
+  test("raises a mismatch at once without a grace period", () => {
+    expect(
+      trackHashes(series).events.map((event) => [
+        event.kind,
+        event.timestamp,
+        event.detectedAt,
+      ])
+    ).toEqual([
+      ["mismatch", 2000, 2000],
+      ["resolved", 6000, 6000],
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, test } from "bun:test";
+import { encodeUDPMessage } from "../encoder.ts";
+import {
+  analyzeLinkHealth,
+  decodeUDPHeader,
+  type UdpHeaderLayout,
+} from "../header.ts";
+import { udpRow } from "./helpers.ts";
+
+const DOCK_HEADER = [
+  1, 1, 145, 245, 255, 255, 0, 0, 1, 0, 0, 255, 255, 255, 255, 255,
+];
+
+function dockFrame(values: {
+  source?: number;
+  sequence?: number;
+  session?: number;
+  fuel?: number;
+}) {
+  const header = [...DOCK_HEADER];
+  if (values.source !== undefined) {
+    header[2] = values.source & 0xff;
+    header[3] = values.source >> 8;
+  }
+  if (values.sequence !== undefined) header[9] = values.sequence;
+  if (values.session !== undefined) header[10] = values.session;
+  return encodeUDPMessage(
+    "dock",
+    2,
+    { "Fuel Level": values.fuel ?? 50 },
+    { header }
+  );
+}
+
+describe("UDP header", () => {
+  test("decodes every header field", () => {
+    expect(
+      decodeUDPHeader([
+        ...DOCK_HEADER.slice(0, 6),
+        3,
+        7,
+        ...DOCK_HEADER.slice(8),
+      ])
+    ).toEqual({
+      deviceId: 257,
+      deviceName: "dock",
+      sourceId: 0xf591,
+      destinationId: 0xffff,
+      messageId: 0x0703,
+      messageIdHex: "0703",
+      version: 1,
+      reserved: [0, 0, 255, 255, 255, 255, 255],
+    });
+    expect(decodeUDPHeader([1, 1, 145])).toBeNull();
+  });
+
+  test("reads a configured sequence counter", () => {
+    const layout: UdpHeaderLayout = { sequence: { offset: 9, size: 1 } };
+    const header = decodeUDPHeader(dockFrame({ sequence: 42 }), layout);
+    expect(header?.sequence).toBe(42);
+    expect(header?.session).toBeUndefined();
+  });
+});
+
+describe("link analysis", () => {
+  test("detects silence, duplicates and session changes without a counter", () => {
+    const layout: UdpHeaderLayout = { session: { offset: 10, size: 1 } };
+    const events = analyzeLinkHealth(
+      [
+        udpRow(dockFrame({ fuel: 1 }), 0),
+        udpRow(dockFrame({ fuel: 1 }), 5),
+        udpRow(dockFrame({ fuel: 2 }), 1000),
+        udpRow(dockFrame({ fuel: 3 }), 9000),
+        udpRow(dockFrame({ fuel: 3, session: 7 }), 9100),
+      ],
+      { layout }
+    );
+    expect(events.map((event) => [event.kind, event.timestamp])).toEqual([
+      ["duplicate", 5],
+      ["gap", 9000],
+      ["reboot", 9100],
+    ]);
+    expect(events[1]?.previousTimestamp).toBe(1000);
+    expect(events[1]?.dropped).toBeUndefined();
+  });
+
+  test("uses the sequence counter when the layout has one", () => {
+    const layout: UdpHeaderLayout = { sequence: { offset: 9, size: 1 } };
+    const events = analyzeLinkHealth(
+      [254, 255, 2, 2, 3, 0].map((sequence, i) =>
+        udpRow(dockFrame({ sequence, fuel: i }), i * 100)
+      ),
+      { layout }
+    );
+    expect(events.map((event) => [event.kind, event.dropped])).toEqual([
+      ["gap", 2],
+      ["duplicate", undefined],
+      ["reboot", undefined],
+    ]);
+  });
+
+  test("tracks units of the same device type apart by source ID", () => {
+    const layout: UdpHeaderLayout = { sequence: { offset: 9, size: 1 } };
+    const events = analyzeLinkHealth(
+      [
+        udpRow(dockFrame({ source: 0x0a01, sequence: 1 }), 0),
+        udpRow(dockFrame({ source: 0x0b01, sequence: 7 }), 50),
+        udpRow(dockFrame({ source: 0x0a01, sequence: 2 }), 100),
+        udpRow(dockFrame({ source: 0x0b01, sequence: 8 }), 150),
+        udpRow(dockFrame({ source: 0x0a01, sequence: 3 }), 200),
+        udpRow(dockFrame({ source: 0x0b01, sequence: 11 }), 250),
+      ],
+      { layout }
+    );
+    expect(
+      events.map((event) => [event.kind, event.sourceId, event.dropped])
+    ).toEqual([["gap", 0x0b01, 2]]);
+  });
+
+  test("tracks senders separately and ignores CAN rows", () => {
+    const swarmbot = encodeUDPMessage("swarmbot", 2, {});
+    const events = analyzeLinkHealth(
+      [
+        udpRow(dockFrame({}), 0),
+        udpRow(swarmbot, 3000),
+        { date: "4000", log: [1, 2, 3], message_id: 0x100, type: "sb_can0" },
+        udpRow(dockFrame({ fuel: 9 }), 4000),
+        udpRow(swarmbot, 6000),
+      ],
+      { layout: {} }
+    );
+    expect(events).toEqual([]);
+  });
+});
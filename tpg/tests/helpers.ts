@@ -0,0 +1,84 @@
+import {
+  encodeUDPMessage,
+  type EncodeUDPMessageOptions,
+  type EncodeValues,
+  type MessageSelector,
+} from "../encoder.ts";
+import type {
+  LogRowWithDateAndMessageIDAndType,
+  UdpConfig,
+  UdpField,
+} from "../index.ts";
+import { udpConfig } from "../udp_config.ts";
+
+/* ============================
+ * Rows
+ * ============================ */
+
+/**
+ * A UDP log row carrying a raw frame.
+ */
+export function udpRow(
+  log: number[],
+  date: number
+): LogRowWithDateAndMessageIDAndType {
+  return { date: String(date), log, message_id: null, type: "dnr_udp" };
+}
+
+/**
+ * A UDP log row carrying a frame encoded from labelled values.
+ */
+export function messageRow(
+  date: number,
+  deviceName: string,
+  message: MessageSelector,
+  values: EncodeValues,
+  options?: EncodeUDPMessageOptions
+): LogRowWithDateAndMessageIDAndType {
+  return udpRow(encodeUDPMessage(deviceName, message, values, options), date);
+}
+
+/* ============================
+ * Values
+ * ============================ */
+
+/**
+ * The IEEE 754 single-precision bits of a value, as the raw integer a 32-bit field carries.
+ */
+export function float32Bits(value: number): bigint {
+  const view = new DataView(new ArrayBuffer(4));
+  view.setFloat32(0, value, true);
+  return BigInt(view.getUint32(0, true));
+}
+
+/* ============================
+ * Configs
+ * ============================ */
+
+/**
+ * A UDP config field with every required key filled in.
+ */
+export const field = (overrides: Partial<UdpField>): UdpField => ({
+  label: "Field",
+  display: 1,
+  offset: 0,
+  raw: 0,
+  sum_bools: 0,
+  use_enum: 0,
+  use_bits: 0,
+  unit: "",
+  multiplier: 1.0,
+  type: "uint8_t",
+  bytes: [0],
+  ...overrides,
+});
+
+/**
+ * The built-in config with the dock's Fuel Level (message 2) relabelled, to tell configs apart.
+ */
+export function withRenamedFuelLevel(label: string): UdpConfig {
+  const config = structuredClone(udpConfig);
+  const field = config["Dock Messages"].Messages["2"]?.Fields[0];
+  if (field) field.label = label;
+  return config;
+}
@@ -0,0 +1,288 @@
+import { describe, expect, test } from "bun:test";
+import { encodeUDPMessage, type EncodeValues } from "../encoder.ts";
+import { createDiagnostics } from "../diagnostics.ts";
+import {
+  transformUDPLogToTimeSeries,
+  type ParsedLogMessage,
+  type UdpConfig,
+} from "../index.ts";
+import { field, messageRow, udpRow } from "./helpers.ts";
+
+const TIMESTAMP = 1754803260371;
+
+function decodeOne(
+  deviceName: string,
+  message: Parameters<typeof encodeUDPMessage>[1],
+  values: EncodeValues
+): ParsedLogMessage[] {
+  return transformUDPLogToTimeSeries([
+    messageRow(TIMESTAMP, deviceName, message, values),
+  ]);
+}
+
+function find(parsed: ParsedLogMessage[], label: string): ParsedLogMessage {
+  const entry = parsed.find((message) => message.label === label);
+  if (!entry) throw new Error(`No parsed entry labelled '${label}'`);
+  return entry;
+}
+
+// A multiplexed message: Mode picks how Reading is read, bits 1..2 of byte 4 whether Extra is sent
+const multiplexedConfig: UdpConfig = {
+  "Dock Messages": {
+    Prefixes: {},
+    Messages: {
+      "1": {
+        Description: "Multiplexed",
+        Fields: [
+          field({
+            label: "Mode",
+            use_enum: 1,
+            enum: { "0": "Off", "1": "Voltage", "2": "Current", "3": "Temp" },
+          }),
+          field({
+            label: "Reading",
+            type: "uint16_t",
+            bytes: [1, 2],
+            dependent_on: {
+              field: "Mode",
+              variants: [
+                { when: "Voltage", label: "Voltage", unit: "mV" },
+                {
+                  when: "Current",
+                  label: "Current",
+                  unit: "uA",
+                  multiplier: 0.5,
+                },
+                { when: 3, label: "Temperature", type: "int16_t" },
+              ],
+            },
+          }),
+          field({
+            label: "Extra",
+            bytes: [3],
+            dependent_on: {
+              byte: 4,
+              bit: 1,
+              num: 2,
+              variants: [{ when: [1, 2] }],
+            },
+          }),
+        ],
+      },
+    },
+  },
+  "SwarmBot Messages": { Prefixes: {}, Messages: {} },
+  "Other Messages": { Prefixes: {}, Messages: {} },
+};
+
+// One field of every signed type, and a double
+const signedConfig: UdpConfig = {
+  "Dock Messages": {
+    Prefixes: {},
+    Messages: {
+      "1": {
+        Description: "Signed",
+        Fields: [
+          field({ label: "I8", type: "int8_t", bytes: [0] }),
+          field({ label: "I16", type: "int16_t", bytes: [1, 2] }),
+          field({ label: "I32", type: "int32_t", bytes: [3, 4, 5, 6] }),
+          field({
+            label: "I64",
+            type: "int64_t",
+            bytes: [7, 8, 9, 10, 11, 12, 13, 14],
+          }),
+          field({
+            label: "F64",
+            type: "double",
+            bytes: [15, 16, 17, 18, 19, 20, 21, 22],
+          }),
+        ],
+      },
+    },
+  },
+  "SwarmBot Messages": { Prefixes: {}, Messages: {} },
+  "Other Messages": { Prefixes: {}, Messages: {} },
+};
+
+function decodeSigned(log: number[]): ParsedLogMessage[] {
+  return transformUDPLogToTimeSeries([udpRow(log, TIMESTAMP)], {
+    configResolver: { resolve: () => signedConfig },
+  });
+}
+
+function decodeMultiplexed(
+  values: EncodeValues,
+  options: Parameters<typeof transformUDPLogToTimeSeries>[1] = {}
+): ParsedLogMessage[] {
+  return transformUDPLogToTimeSeries(
+    [messageRow(TIMESTAMP, "dock", 1, values, { config: multiplexedConfig })],
+    { configResolver: { resolve: () => multiplexedConfig }, ...options }
+  );
+}
+
+describe("UDP log decoder", () => {
+  describe("Enum resolution", () => {
+    test("resolves enum values to their labels", () => {
+      const parsed = decodeOne(
+        "dock",
+        { prefix: 7, instance: 1 },
+        { eDiagInfo: 10, eMode: 2 }
+      );
+      const diag = find(parsed, "Pin ID 1 / eDiagInfo");
+      expect(diag.isEnum).toBe(true);
+      expect(diag.enumLabels).toEqual(["ERR_OPEN_CIRCUIT"]);
+      expect(diag.hasUnknownEnumValue).toBe(false);
+      expect(find(parsed, "Pin ID 1 / eMode").enumLabels).toEqual(["PWM_H_o"]);
+    });
+
+    test("flags values missing from the enum map", () => {
+      const parsed = decodeOne("dock", 4, { Active: 7 });
+      const active = find(parsed, "Active");
+      expect(active.series[0]?.[1]).toBe(7);
+      expect(active.enumLabels).toEqual([null]);
+      expect(active.hasUnknownEnumValue).toBe(true);
+    });
+
+    test("leaves non-enum fields without labels", () => {
+      const parsed = decodeOne("dock", 4, { "Error Code": 12 });
+      expect(find(parsed, "Error Code").enumLabels).toBeUndefined();
+    });
+  });
+
+  describe("64-bit integers", () => {
+    test("decodes uint64 hashes losslessly", () => {
+      const hash = 0xfedcba9876543210n;
+      const parsed = decodeOne("dock", 7, { Hash: hash });
+      const entry = find(parsed, "Hash");
+      expect(entry.exactValues).toEqual([hash.toString()]);
+      expect(entry.series[0]?.[1]).toBe(Number(hash));
+    });
+
+    test("keeps the low bytes that used to wrap", () => {
+      const parsed = decodeOne("dock", 4, { Payload: 0x0000000100000002n });
+      const entry = find(parsed, "Payload");
+      expect(entry.exactValues).toEqual(["4294967298"]);
+      expect(entry.series[0]?.[1]).toBe(4294967298);
+    });
+  });
+
+  describe("Signed and double types", () => {
+    const values = {
+      I8: -5,
+      I16: -1234,
+      I32: -123456,
+      I64: -(2n ** 60n) - 3n,
+      F64: -1234.56789012345,
+    };
+
+    test("decodes two's complement and IEEE 754 payload bytes", () => {
+      const payload = new DataView(new ArrayBuffer(23));
+      payload.setInt8(0, -5);
+      payload.setInt16(1, -1234, true);
+      payload.setInt32(3, -123456, true);
+      payload.setBigInt64(7, values.I64, true);
+      payload.setFloat64(15, values.F64, true);
+      const log = encodeUDPMessage("dock", 1, {}, { config: signedConfig });
+      log.splice(16, 23, ...new Uint8Array(payload.buffer));
+
+      const parsed = decodeSigned(log);
+      expect(find(parsed, "I8").series).toEqual([[TIMESTAMP, -5]]);
+      expect(find(parsed, "I16").series).toEqual([[TIMESTAMP, -1234]]);
+      expect(find(parsed, "I32").series).toEqual([[TIMESTAMP, -123456]]);
+      expect(find(parsed, "I64").exactValues).toEqual(["-1152921504606846979"]);
+      expect(find(parsed, "I64").series[0]?.[1]).toBe(Number(values.I64));
+    });
+
+    test("keeps doubles at full precision", () => {
+      const parsed = decodeSigned(
+        encodeUDPMessage("dock", 1, values, { config: signedConfig })
+      );
+      expect(find(parsed, "F64").series).toEqual([
+        [TIMESTAMP, -1234.56789012345],
+      ]);
+    });
+
+    test("round-trips negative values through the encoder", () => {
+      const parsed = decodeSigned(
+        encodeUDPMessage("dock", 1, values, { config: signedConfig })
+      );
+      expect(
+        ["I8", "I16", "I32"].map((label) => find(parsed, label).series[0]?.[1])
+      ).toEqual([-5, -1234, -123456]);
+      expect(find(parsed, "I64").exactValues).toEqual([values.I64.toString()]);
+    });
+  });
+
+  describe("Prefix instances", () => {
+    test("names each series after its instance and exposes the instance", () => {
+      const parsed = transformUDPLogToTimeSeries([
+        messageRow(
+          TIMESTAMP,
+          "dock",
+          { prefix: 16, instance: 2 },
+          { "Fill Type": 1 }
+        ),
+        messageRow(
+          TIMESTAMP,
+          "dock",
+          { prefix: 16, instance: 5 },
+          { "Fill Type": 3 }
+        ),
+      ]);
+
+      const valve2 = find(parsed, "Valve 2 / Fill Type");
+      const valve5 = find(parsed, "Valve 5 / Fill Type");
+      expect(valve2.instance).toBe(2);
+      expect(valve2.series[0]?.[1]).toBe(1);
+      expect(valve5.instance).toBe(5);
+      expect(valve5.series[0]?.[1]).toBe(3);
+    });
+
+    test("direct messages have no instance", () => {
+      const parsed = decodeOne("dock", 4, { "Error Code": 12 });
+      expect(find(parsed, "Error Code").instance).toBeUndefined();
+    });
+  });
+
+  describe("Conditional fields", () => {
+    test("reads a field as the variant its selector's enum value picks", () => {
+      const current = decodeMultiplexed({ Current: 12.5 });
+      expect(find(current, "Mode").enumLabels).toEqual(["Current"]);
+      expect(find(current, "Current")).toMatchObject({
+        unit: "uA",
+        series: [[TIMESTAMP, 12.5]],
+      });
+
+      const voltage = decodeMultiplexed({ Mode: 1, Voltage: 24000 });
+      expect(find(voltage, "Voltage")).toMatchObject({
+        unit: "mV",
+        series: [[TIMESTAMP, 24000]],
+      });
+
+      // The type changes with the variant, so negative temperatures survive
+      const temperature = decodeMultiplexed({ Temperature: -40 });
+      expect(find(temperature, "Temperature").series).toEqual([
+        [TIMESTAMP, -40],
+      ]);
+    });
+
+    test("leaves out fields no variant matches", () => {
+      const diagnostics = createDiagnostics({ level: "debug" });
+      const labels = decodeMultiplexed({ Mode: 0 }, { diagnostics }).map(
+        (entry) => entry.label
+      );
+      expect(labels).toEqual(["Mode"]);
+      expect(
+        diagnostics
+          .entries()
+          .filter((entry) => entry.reason === "dependent_field_absent")
+          .map((entry) => entry.field)
+      ).toEqual(["Reading", "Extra"]);
+    });
+
+    test("decodes a field only while its selector bits hold", () => {
+      const parsed = decodeMultiplexed({ Mode: 0, Extra: 7 });
+      expect(find(parsed, "Extra").series).toEqual([[TIMESTAMP, 7]]);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+import {
+  formatUnknownMessageReport,
+  inventoryUnknownMessages,
+} from "../inventory.ts";
+import { messageRow, udpRow } from "./helpers.ts";
+
+// Dock header with a message ID (0x0a01) that has no config entry
+function unknownDockFrame(payload: number[]): number[] {
+  return [
+    1,
+    1,
+    145,
+    245,
+    255,
+    255,
+    0x01,
+    0x0a,
+    1,
+    0,
+    0,
+    255,
+    255,
+    255,
+    255,
+    255,
+    ...payload,
+  ];
+}
+
+describe("unknown message inventory", () => {
+  const rows = [
+    udpRow(unknownDockFrame([1, 2, 3, 4]), 3000),
+    udpRow(unknownDockFrame([1, 2, 3, 4]), 1000),
+    udpRow(unknownDockFrame([9, 9]), 2000),
+    udpRow([0x34, 0x12, ...unknownDockFrame([]).slice(2), 0], 1500),
+    messageRow(1000, "dock", 2, { "Fuel Level": 1 }),
+  ];
+
+  test("groups dropped frames by device and message ID", () => {
+    const entries = inventoryUnknownMessages(rows);
+
+    expect(entries).toEqual([
+      {
+        reason: "unknown_message",
+        deviceId: 0x0101,
+        sender: "dock",
+        messageId: "0a01",
+        count: 3,
+        firstTimestamp: 1000,
+        lastTimestamp: 3000,
+        payloadLengths: [2, 4],
+        samples: [
+          "01 01 91 f5 ff ff 01 0a 01 00 00 ff ff ff ff ff 01 02 03 04",
+          "01 01 91 f5 ff ff 01 0a 01 00 00 ff ff ff ff ff 09 09",
+        ],
+      },
+      {
+        reason: "unknown_device",
+        deviceId: 0x1234,
+        sender: "invalid",
+        messageId: "0a01",
+        count: 1,
+        firstTimestamp: 1500,
+        lastTimestamp: 1500,
+        payloadLengths: [1],
+        samples: ["34 12 91 f5 ff ff 01 0a 01 00 00 ff ff ff ff ff 00"],
+      },
+    ]);
+  });
+
+  test("formats a readable report", () => {
+    const report = formatUnknownMessageReport(
+      inventoryUnknownMessages(rows, { maxSamples: 1 })
+    );
+    expect(report).toContain(
+      "dock (device 257) message 0x0a01: unknown_message"
+    );
+    expect(report).toContain(
+      "count 3, 1970-01-01T00:00:01.000Z .. 1970-01-01T00:00:03.000Z"
+    );
+    expect(report).toContain("payload lengths 2, 4");
+    expect(report).not.toContain("09 09");
+  });
+});
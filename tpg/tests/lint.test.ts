@@ -0,0 +1,136 @@
+import { describe, expect, test } from "bun:test";
+import type { UdpConfig, UdpField } from "../index.ts";
+import { lintUdpConfig } from "../lint.ts";
+import { udpConfig } from "../udp_config.ts";
+import { field } from "./helpers.ts";
+
+function configWithFields(fields: UdpField[]): UdpConfig {
+  return {
+    "Dock Messages": {
+      Prefixes: {},
+      Messages: { "1": { Description: "Test", Fields: fields } },
+    },
+    "SwarmBot Messages": { Prefixes: {}, Messages: {} },
+    "Other Messages": { Prefixes: {}, Messages: {} },
+  };
+}
+
+describe("UDP config linter", () => {
+  test("the built-in config lints clean", () => {
+    expect(lintUdpConfig(udpConfig)).toEqual([]);
+  });
+
+  test("checks type sizes, bit ranges, dependencies, overlaps and labels", () => {
+    const issues = lintUdpConfig(
+      configWithFields([
+        field({ label: "Short", type: "uint32_t", bytes: [0, 1] }),
+        field({
+          label: "Flags",
+          use_bits: 1,
+          bytes: [2],
+          bits: [{ Name: "Wide", Start: 4, Num: 8 }],
+        }),
+        field({ label: "Dep", dependent_on: { byte: 2, bit: 0 }, bytes: [3] }),
+        field({ label: "Overlap", bytes: [1] }),
+        field({ label: "Short", bytes: [4] }),
+      ])
+    );
+
+    expect(
+      issues.map((issue) => [issue.severity, issue.path, issue.message])
+    ).toEqual([
+      [
+        "error",
+        `"Dock Messages".Messages."1".Fields[0]`,
+        "'Short' type uint32_t needs 4 byte(s) but 2 are configured",
+      ],
+      [
+        "error",
+        `"Dock Messages".Messages."1".Fields[1]`,
+        "'Flags' bit 'Wide' (start 4, 8 bits) doesn't fit in 1 byte(s)",
+      ],
+      [
+        "error",
+        `"Dock Messages".Messages."1".Fields[2]`,
+        `'Dep' uses dependent_on but label 'Dep' isn't in "A | B" form`,
+      ],
+      [
+        "error",
+        `"Dock Messages".Messages."1".Fields[3]`,
+        "'Overlap' overlaps 'Short' at byte 1",
+      ],
+      [
+        "warning",
+        `"Dock Messages".Messages."1".Fields[4]`,
+        "'Short' duplicates label 'Short' of Fields[0]",
+      ],
+    ]);
+  });
+
+  test("checks selectors and variants of conditional fields", () => {
+    const issues = lintUdpConfig(
+      configWithFields([
+        field({ label: "Mode", use_enum: 1, enum: { "1": "Voltage" } }),
+        field({
+          label: "Reading",
+          bytes: [1, 2],
+          type: "uint16_t",
+          dependent_on: {
+            field: "Mode",
+            variants: [
+              { when: "Voltage", label: "Voltage" },
+              { when: "Current", label: "Current", type: "uint32_t" },
+              { label: "Mode" },
+              { when: 3, label: "Late" },
+            ],
+          },
+        }),
+        field({ label: "Orphan", bytes: [3], dependent_on: { field: "Nope" } }),
+        field({
+          label: "Wide",
+          bytes: [4],
+          dependent_on: { byte: 0, bit: 4, num: 4 },
+        }),
+      ])
+    );
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      "'Reading' variant 1 'Current' type uint32_t needs 4 byte(s) but 2 are configured",
+      "'Reading' variant 1 'Current' matches 'Current', which isn't an enum label of its selector",
+      "'Reading' variant 3 'Late' follows a variant without 'when' and is never picked",
+      "'Reading' duplicates label 'Mode' of Fields[0]",
+      "'Orphan' dependent_on.field 'Nope' isn't a field of this message",
+      "'Orphan' selects on a field but defines no variants",
+      "'Wide' selects on more than one bit but defines no variants",
+    ]);
+  });
+
+  test("lets fields share bytes only when their selector values are disjoint", () => {
+    const gated = (label: string, when: string | string[]) =>
+      field({
+        label,
+        bytes: [1, 2],
+        type: "uint16_t",
+        dependent_on: { field: "Mode", variants: [{ when }] },
+      });
+    const issues = lintUdpConfig(
+      configWithFields([
+        field({
+          label: "Mode",
+          use_enum: 1,
+          enum: { "0": "V", "1": "I", "2": "P" },
+        }),
+        gated("Volt", "V"),
+        gated("Curr", "I"),
+        gated("Power", ["P", "V"]),
+        field({ label: "Always", bytes: [2] }),
+      ])
+    );
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      "'Power' overlaps 'Volt' at byte 1",
+      "'Power' overlaps 'Volt' at byte 2",
+      "'Always' overlaps 'Volt' at byte 2",
+    ]);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, expect, test } from "bun:test";
+import { createChangeOnlyFilter } from "../compression.ts";
+import { encodeUDPMessage } from "../encoder.ts";
+import type { DecodedPoint } from "../index.ts";
+import { createPointHub, startLiveDecoder } from "../live.ts";
+
+/**
+ * Reads SSE frames until `count` `points` events arrived, and returns their batches.
+ */
+async function readPointsEvents(
+  body: ReadableStream<Uint8Array>,
+  count = 1
+): Promise<DecodedPoint[][]> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) throw new Error("Event stream ended");
+      buffer += decoder.decode(value, { stream: true });
+      const batches = Array.from(
+        buffer.matchAll(/event: points\ndata: (.*)\n\n/g),
+        (match) => JSON.parse(match[1] ?? "[]") as DecodedPoint[]
+      );
+      if (batches.length >= count) return batches.slice(0, count);
+    }
+  } finally {
+    await reader.cancel();
+  }
+}
+
+describe("point hub", () => {
+  test("filters batches per subscriber and stops after unsubscribe", () => {
+    const hub = createPointHub();
+    const all: DecodedPoint[][] = [];
+    const dockErrors: DecodedPoint[][] = [];
+    const unsubscribe = hub.subscribe((points) => all.push(points));
+    hub.subscribe((points) => dockErrors.push(points), {
+      sender: ["dock"],
+      label: ["Error Code"],
+    });
+
+    const point = (sender: string, label: string): DecodedPoint => ({
+      timestamp: 1,
+      sender,
+      messageId: "0004",
+      id: `${sender}_0004_${label}`,
+      label,
+      unit: "",
+      value: 1,
+      isEnum: false,
+    });
+    hub.publish([point("dock", "Error Code"), point("dock", "Active")]);
+    hub.publish([point("swarmbot", "Error Code")]);
+
+    expect(all).toHaveLength(2);
+    expect(dockErrors).toEqual([[point("dock", "Error Code")]]);
+
+    unsubscribe();
+    hub.publish([point("dock", "Active")]);
+    expect(all).toHaveLength(2);
+    expect(hub.subscriberCount()).toBe(1);
+  });
+});
+
+describe("live decoder", () => {
+  test("publishes decoded UDP frames to SSE subscribers", async () => {
+    const live = await startLiveDecoder({
+      udpPort: 0,
+      udpHostname: "127.0.0.1",
+      httpPort: 0,
+    });
+    const client = await Bun.udpSocket({});
+    try {
+      const response = await fetch(
+        new URL("/events?sender=dock&label=Error%20Code", live.httpUrl)
+      );
+      expect(response.headers.get("content-type")).toBe("text/event-stream");
+      if (!response.body) throw new Error("Missing event stream");
+      const received = readPointsEvents(response.body);
+
+      // The subscription is registered once the stream has started
+      while (live.hub.subscriberCount() === 0) await Bun.sleep(5);
+      client.send(
+        new Uint8Array(
+          encodeUDPMessage("dock", 4, { "Error Code": 7, Active: 1 })
+        ),
+        live.udpPort,
+        "127.0.0.1"
+      );
+
+      const [points = []] = await received;
+      expect(points.map((point) => [point.label, point.value])).toEqual([
+        ["Error Code", 7],
+      ]);
+    } finally {
+      client.close();
+      live.stop();
+    }
+  });
+
+  test("applies the decode options' change filter to live frames", async () => {
+    const live = await startLiveDecoder({
+      udpPort: 0,
+      udpHostname: "127.0.0.1",
+      httpPort: 0,
+      decodeOptions: { changeFilter: createChangeOnlyFilter() },
+    });
+    const client = await Bun.udpSocket({});
+    try {
+      const response = await fetch(
+        new URL("/events?label=Error%20Code", live.httpUrl)
+      );
+      if (!response.body) throw new Error("Missing event stream");
+      const received = readPointsEvents(response.body, 2);
+
+      while (live.hub.subscriberCount() === 0) await Bun.sleep(5);
+      for (const code of [7, 7, 8]) {
+        client.send(
+          new Uint8Array(encodeUDPMessage("dock", 4, { "Error Code": code })),
+          live.udpPort,
+          "127.0.0.1"
+        );
+        await Bun.sleep(20);
+      }
+
+      const batches = await received;
+      expect(
+        batches.map((points) => points.map((point) => point.value))
+      ).toEqual([[7], [8]]);
+    } finally {
+      client.close();
+      live.stop();
+    }
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, test } from "bun:test";
+import { encodeUDPMessage } from "../encoder.ts";
+import {
+  UDP_HEADER_LENGTH,
+  deviceIds,
+  type LogRowWithDateAndMessageIDAndType,
+} from "../index.ts";
+import { interpretParamValue, trackParamExchanges } from "../params.ts";
+import { float32Bits, udpRow } from "./helpers.ts";
+
+const REAL = 9;
+const INT = 6;
+
+// "Var Type" has no decoder type, so the encoder leaves it out; it sits at payload byte 3
+function paramRow(
+  date: number,
+  deviceName: string,
+  message: number,
+  varType: number,
+  values: Record<string, number | bigint>
+): LogRowWithDateAndMessageIDAndType {
+  const log = encodeUDPMessage(
+    deviceName === "dock" ? "dock" : "swarmbot",
+    message,
+    values
+  );
+  const deviceId = deviceIds[deviceName] ?? 0;
+  log[0] = deviceId & 0xff;
+  log[1] = deviceId >> 8;
+  log[UDP_HEADER_LENGTH + 3] = varType;
+  return udpRow(log, date);
+}
+
+describe("parameter exchanges", () => {
+  test("pairs multi-param reads and writes with their responses", () => {
+    const exchanges = trackParamExchanges([
+      paramRow(1000, "swarmbot", 8, REAL, { "ID Req": 42, Req: 0 }),
+      paramRow(1030, "dock", 8, REAL, {
+        "ID Resp": 42,
+        Resp: 240,
+        "Value Resp": float32Bits(1.5),
+      }),
+      paramRow(2000, "paramSyncer", 8, INT, {
+        "ID Req": 7,
+        Req: 255,
+        Index1: 2,
+        Value: 0xfffe,
+      }),
+      paramRow(2012, "dock", 8, INT, { "ID Resp": 7, Resp: 15, Index1: 2 }),
+      paramRow(3000, "swarmbot", 8, INT, { "ID Req": 8, Req: 0 }),
+    ]);
+
+    expect(exchanges).toEqual([
+      {
+        kind: "multi",
+        paramId: 42,
+        requester: "swarmbot",
+        operation: "read",
+        varType: "REAL",
+        index1: { start: 0, end: 0 },
+        index2: { start: 0, end: 0 },
+        writeValue: null,
+        values: [
+          {
+            index1: 0,
+            index2: 0,
+            raw: String(float32Bits(1.5)),
+            value: 1.5,
+          },
+        ],
+        status: "ok",
+        requestedAt: 1000,
+        respondedAt: 1030,
+        latencyMs: 30,
+      },
+      expect.objectContaining({
+        paramId: 7,
+        requester: "paramSyncer",
+        operation: "write",
+        writeValue: -2,
+        status: "failed",
+        latencyMs: 12,
+      }),
+      expect.objectContaining({
+        paramId: 8,
+        status: "no_response",
+        respondedAt: null,
+      }),
+    ]);
+  });
+
+  test("reassembles array reads across response frames", () => {
+    const request = paramRow(1000, "swarmbot", 9, INT, {
+      "ID Req": 3,
+      Req: 0,
+      "Index1 Start": 0,
+      "Index1 End": 2,
+    });
+    const element = (date: number, index: number, value: number) =>
+      paramRow(date, "dock", 9, INT, {
+        "ID Resp": 3,
+        Resp: 240,
+        "Index1 Start": index,
+        "Index1 End": index,
+        "Value Resp": value,
+      });
+
+    const [complete] = trackParamExchanges([
+      request,
+      element(1010, 2, 30),
+      element(1020, 0, 10),
+      element(1040, 1, 20),
+    ]);
+    expect(complete?.status).toBe("ok");
+    expect(complete?.latencyMs).toBe(40);
+    expect(
+      complete?.values.map((value) => [value.index1, value.value])
+    ).toEqual([
+      [0, 10],
+      [1, 20],
+      [2, 30],
+    ]);
+
+    const [partial, unsolicited] = trackParamExchanges([
+      request,
+      element(1010, 0, 10),
+      element(9000, 1, 20),
+    ]);
+    expect(partial?.status).toBe("partial");
+    expect(partial?.values).toHaveLength(1);
+    expect(unsolicited).toMatchObject({
+      requester: null,
+      operation: "read",
+      status: "ok",
+      latencyMs: null,
+    });
+  });
+
+  test("interprets values by Var Type", () => {
+    expect(interpretParamValue(0xffn, 5)).toBe(-1); // SINT
+    expect(interpretParamValue(2n ** 64n - 1n, 8)).toBe("-1"); // LINT
+    expect(interpretParamValue(float32Bits(-0.25), REAL)).toBe(-0.25);
+    expect(interpretParamValue(5n, 99)).toBe("5");
+  });
+});
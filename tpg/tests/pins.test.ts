@@ -0,0 +1,210 @@
+import { describe, expect, test } from "bun:test";
+import { encodeUDPMessage, type EncodeValues } from "../encoder.ts";
+import { UDP_HEADER_LENGTH } from "../index.ts";
+import { buildPinStates, formatPinReport } from "../pins.ts";
+import { messageRow } from "./helpers.ts";
+
+const pinConfig = (date: number, pin: number, values: EncodeValues) =>
+  messageRow(date, "tooling", { prefix: 5, instance: pin }, values);
+
+const pinMeasure = (date: number, pin: number, values: EncodeValues) =>
+  messageRow(date, "dock", { prefix: 7, instance: pin }, values);
+
+// Source ID of the dock in encodeUDPMessage's default header
+const DOCK = 0;
+
+const output = { eMode: 1, OutState: 1, IO_ID_ID: 3, IO_ID_IsInput: 0 };
+
+describe("pin state model", () => {
+  const { pins, events } = buildPinStates([
+    pinConfig(1000, 3, {
+      eMode: 1,
+      OutputOffDelay: 500,
+      "Response Freq": 100,
+      Flags_DisableOverride: 1,
+      ControlInStandard: 255,
+    }),
+    pinMeasure(2000, 3, {
+      ...output,
+      eDiagInfo: 1,
+      Voltage: 12000,
+      Current: 350,
+    }),
+    messageRow(
+      2500,
+      "tooling",
+      { prefix: 6, instance: 3 },
+      { "Voltage / Current": 500 }
+    ),
+    pinMeasure(3000, 3, { ...output, eDiagInfo: 10, Voltage: 0, Current: 0 }),
+    pinConfig(3500, 4, { eMode: 7 }),
+    pinMeasure(4000, 4, {
+      eDiagInfo: 1,
+      eMode: 6,
+      OutState: 1,
+      IO_ID_ID: 4,
+      IO_ID_IsInput: 1,
+      Decoded: 17,
+      Raw: 900,
+    }),
+  ]);
+
+  test("combines configuration, override and measurement per pin", () => {
+    expect(pins.map((state) => [state.dock, state.pin, state.health])).toEqual([
+      [DOCK, 3, "fault"],
+      [DOCK, 4, "warning"],
+    ]);
+    const [output, input] = pins;
+
+    expect(output).toMatchObject({
+      modeMatchesConfig: true,
+      measured: {
+        timestamp: 3000,
+        mode: 1,
+        modeLabel: "BH_o",
+        diagnostic: "ERR_OPEN_CIRCUIT",
+        outState: "Good",
+        ioId: 3,
+        isInput: false,
+        voltage: 0,
+        current: 0,
+        decoded: null,
+        frames: 2,
+      },
+      config: {
+        sender: "tooling",
+        mode: 1,
+        outputOffDelayMs: 500,
+        responseFreqMs: 100,
+        controlInStandard: true,
+        flags: { DisableOverride: true, StopOverrideOnEstop: false },
+      },
+      override: { timestamp: 2500, sender: "tooling", value: 500 },
+    });
+    expect(input).toMatchObject({
+      modeMatchesConfig: false,
+      measured: { modeLabel: "R_i", isInput: true, decoded: 17, raw: 900 },
+    });
+  });
+
+  test("records discrete changes as events", () => {
+    expect(
+      events.filter((event) => event.pin === 3 && event.source !== "config")
+    ).toEqual([
+      {
+        dock: DOCK,
+        pin: 3,
+        timestamp: 2000,
+        source: "measure",
+        field: "eDiagInfo",
+        from: null,
+        to: "STAT_DONE",
+      },
+      {
+        dock: DOCK,
+        pin: 3,
+        timestamp: 2000,
+        source: "measure",
+        field: "eMode",
+        from: null,
+        to: "BH_o",
+      },
+      {
+        dock: DOCK,
+        pin: 3,
+        timestamp: 2000,
+        source: "measure",
+        field: "OutState",
+        from: null,
+        to: "Good",
+      },
+      {
+        dock: null,
+        pin: 3,
+        timestamp: 2500,
+        source: "override",
+        field: "Voltage / Current",
+        from: null,
+        to: 500,
+      },
+      {
+        dock: DOCK,
+        pin: 3,
+        timestamp: 3000,
+        source: "measure",
+        field: "eDiagInfo",
+        from: "STAT_DONE",
+        to: "ERR_OPEN_CIRCUIT",
+      },
+    ]);
+
+    const report = formatPinReport(pins, events);
+    expect(report).toContain("Pin 4 [warning] mode differs from config");
+    expect(report).toContain(
+      "1970-01-01T00:00:03.000Z pin 3 eDiagInfo: STAT_DONE -> ERR_OPEN_CIRCUIT"
+    );
+  });
+});
+
+describe("pin states of several docks", () => {
+  // Header with a source ID (bytes 2..3) and destination ID (bytes 4..5)
+  const header = (source: number, destination = 0xffff) => {
+    const bytes = new Array<number>(UDP_HEADER_LENGTH).fill(0);
+    bytes.splice(
+      2,
+      4,
+      source & 0xff,
+      source >> 8,
+      destination & 0xff,
+      destination >> 8
+    );
+    return bytes;
+  };
+  const measure = (date: number, source: number, values: EncodeValues) =>
+    messageRow(date, "dock", { prefix: 7, instance: 3 }, values, {
+      header: header(source),
+    });
+  const config = (date: number, values: EncodeValues, destination?: number) =>
+    messageRow(date, "tooling", { prefix: 5, instance: 3 }, values, {
+      header: header(0, destination),
+    });
+
+  const { pins, events } = buildPinStates([
+    config(1000, { eMode: 1 }),
+    config(1100, { eMode: 6 }, 0x0b02),
+    measure(2000, 0x0a01, { ...output, eDiagInfo: 1 }),
+    measure(2000, 0x0b02, { ...output, eDiagInfo: 10 }),
+  ]);
+
+  test("keeps the same pin of two docks apart", () => {
+    expect(
+      pins.map((state) => [
+        state.dock,
+        state.pin,
+        state.measured?.diagnostic,
+        state.config?.mode,
+        state.health,
+      ])
+    ).toEqual([
+      [0x0a01, 3, "STAT_DONE", 1, "ok"],
+      [0x0b02, 3, "ERR_OPEN_CIRCUIT", 6, "fault"],
+    ]);
+    expect(
+      events
+        .filter((event) => event.field === "eDiagInfo")
+        .map((event) => [event.dock, event.from, event.to])
+    ).toEqual([
+      [0x0a01, null, "STAT_DONE"],
+      [0x0b02, null, "ERR_OPEN_CIRCUIT"],
+    ]);
+  });
+
+  test("groups the report by dock", () => {
+    const report = formatPinReport(pins, events);
+    expect(report.split("\n\n").map((block) => block.split("\n")[0])).toEqual([
+      "Dock 0a01",
+      "Dock 0b02",
+    ]);
+    expect(report).toContain("pin 3 eDiagInfo: - -> ERR_OPEN_CIRCUIT");
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test";
+import { transformUDPLogToTimeSeries } from "../index.ts";
+import {
+  aggregateParsedLogMessages,
+  transformUDPLogToSeries,
+} from "../series.ts";
+import { messageRow } from "./helpers.ts";
+
+const rows = [
+  messageRow(3000, "dock", 4, { Active: 0, "Error Code": 3 }),
+  messageRow(1000, "dock", 4, { Active: 255, "Error Code": 1 }),
+  messageRow(2000, "dock", 4, { Active: 9, "Error Code": 2 }),
+];
+
+describe("Series aggregation", () => {
+  test("merges points by id into one time-sorted series", () => {
+    const series = transformUDPLogToSeries(rows);
+    const errorCode = series.find((entry) => entry.label === "Error Code");
+
+    expect(series.filter((entry) => entry.label === "Error Code").length).toBe(
+      1
+    );
+    expect(errorCode?.timestamps).toBeInstanceOf(Float64Array);
+    expect(Array.from(errorCode?.timestamps ?? [])).toEqual([1000, 2000, 3000]);
+    expect(Array.from(errorCode?.values ?? [])).toEqual([1, 2, 3]);
+  });
+
+  test("keeps per-sample enum labels aligned after sorting", () => {
+    const active = transformUDPLogToSeries(rows).find(
+      (entry) => entry.label === "Active"
+    );
+    expect(active?.enumLabels).toEqual(["Inactive", null, "Active"]);
+    expect(active?.hasUnknownEnumValue).toBe(true);
+  });
+
+  test("aggregates existing ParsedLogMessage output the same way", () => {
+    expect(
+      aggregateParsedLogMessages(transformUDPLogToTimeSeries(rows))
+    ).toEqual(
+      transformUDPLogToSeries(rows).map(({ order: _order, ...entry }) => entry)
+    );
+  });
+
+  test("records the decode order of every sample", () => {
+    const series = transformUDPLogToSeries(rows);
+    const orders = series.flatMap((entry) => Array.from(entry.order ?? []));
+    expect(orders.sort((a, b) => a - b)).toEqual(
+      orders.map((_, index) => index)
+    );
+  });
+});
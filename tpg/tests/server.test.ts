@@ -0,0 +1,140 @@
+import { describe, expect, test } from "bun:test";
+import type { LogRowQuery } from "../clickhouse.ts";
+import { createChangeOnlyFilter } from "../compression.ts";
+import type {
+  LogRowWithDateAndMessageIDAndType,
+  UDPLogResponse,
+} from "../index.ts";
+import { handleRequest } from "../server.ts";
+import { messageRow } from "./helpers.ts";
+
+const rows: LogRowWithDateAndMessageIDAndType[] = [
+  messageRow(1000, "dock", 4, { "Error Code": 7, Active: 0 }),
+  messageRow(2000, "swarmbot", 1, { "Refill ID": 3 }),
+];
+
+function post(body: unknown): Request {
+  return new Request("http://tpg/decode", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
+describe("decode server", () => {
+  test("decodes posted rows into the response shape", async () => {
+    const response = await handleRequest(post({ rows }));
+    expect(response.status).toBe(200);
+
+    const body = (await response.json()) as UDPLogResponse;
+    expect(body.unique_messages.map((message) => message.id)).toEqual([
+      "dock_0004",
+      "swarmbot_0001",
+    ]);
+    expect(
+      body.parsed.find((entry) => entry.label === "Error Code")?.series
+    ).toEqual([[1000, 7]]);
+  });
+
+  test("filters by sender, message id and label", async () => {
+    const response = await handleRequest(
+      post({
+        rows,
+        sender: "dock",
+        messageId: ["0004"],
+        label: ["Active", "Error Code"],
+      })
+    );
+    const body = (await response.json()) as UDPLogResponse;
+    expect(body.parsed.map((entry) => entry.label).sort()).toEqual([
+      "Active",
+      "Error Code",
+    ]);
+    expect(body.unique_messages).toEqual([
+      {
+        id: "dock_0004",
+        sender: "dock",
+        fields: [{ label: "Active" }, { label: "Error Code" }],
+      },
+    ]);
+  });
+
+  test("fetches rows for a swarmbot and time range from the row source", async () => {
+    const queries: LogRowQuery[] = [];
+    async function* rowSource(query: LogRowQuery) {
+      queries.push(query);
+      yield* rows;
+    }
+
+    const response = await handleRequest(
+      new Request(
+        "http://tpg/decode?swarmbotId=sb-0130&from=1970-01-01T00:00:00Z&to=5000&sender=swarmbot"
+      ),
+      { rowSource }
+    );
+    const body = (await response.json()) as UDPLogResponse;
+
+    expect(queries).toEqual([{ swarmbotId: "sb-0130", from: 0, to: 5000 }]);
+    expect(body.unique_messages.map((message) => message.id)).toEqual([
+      "swarmbot_0001",
+    ]);
+  });
+
+  test("reads all-digit times as epoch ms, including 0", async () => {
+    const queries: LogRowQuery[] = [];
+    async function* rowSource(query: LogRowQuery) {
+      queries.push(query);
+      yield* rows;
+    }
+
+    await handleRequest(
+      new Request("http://tpg/decode?swarmbotId=sb-0130&from=0&to=2000"),
+      { rowSource }
+    );
+    expect(queries).toEqual([{ swarmbotId: "sb-0130", from: 0, to: 2000 }]);
+  });
+
+  test("builds fresh decode options for every request", async () => {
+    const options = {
+      createDecodeOptions: () => ({ changeFilter: createChangeOnlyFilter() }),
+    };
+
+    for (let i = 0; i < 2; i++) {
+      const response = await handleRequest(post({ rows }), options);
+      const body = (await response.json()) as UDPLogResponse;
+      expect(
+        body.parsed.find((entry) => entry.label === "Error Code")?.series
+      ).toEqual([[1000, 7]]);
+    }
+  });
+
+  test("rejects incomplete requests and unknown routes", async () => {
+    const invalid = await handleRequest(post({ swarmbotId: "sb-0130" }));
+    expect(invalid.status).toBe(400);
+    expect(((await invalid.json()) as { error: string }).error).toBe(
+      "Invalid decode request"
+    );
+
+    const badRow = await handleRequest(
+      post({ rows: [{ ...rows[0], log: [256] }] })
+    );
+    expect(badRow.status).toBe(400);
+
+    expect((await handleRequest(new Request("http://tpg/nope"))).status).toBe(
+      404
+    );
+    expect(
+      await (await handleRequest(new Request("http://tpg/health"))).text()
+    ).toBe("ok");
+  });
+
+  test("reports row source failures", async () => {
+    async function* rowSource(): AsyncGenerator<LogRowWithDateAndMessageIDAndType> {
+      throw new Error("ClickHouse query failed (500): boom");
+    }
+    const response = await handleRequest(
+      post({ swarmbotId: "sb-0130", from: 0, to: 1 }),
+      { rowSource }
+    );
+    expect(response.status).toBe(502);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, test } from "bun:test";
+import { transformUDPLogToTimeSeries, type DecodedPoint } from "../index.ts";
+import { decodeUDPLogStream, readJSONEachRow } from "../stream.ts";
+import { messageRow } from "./helpers.ts";
+
+const rows = Array.from({ length: 10 }, (_, index) =>
+  messageRow(1000 + index, "dock", 3, {
+    "Transfer Rate Measured": index,
+    "Pump Pressure": 2,
+    "Volume Delivered": index * 10,
+  })
+);
+
+async function* chunked(text: string, size: number) {
+  const bytes = new TextEncoder().encode(text);
+  for (let i = 0; i < bytes.length; i += size) {
+    yield bytes.slice(i, i + size);
+  }
+}
+
+async function collect<T>(source: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of source) items.push(item);
+  return items;
+}
+
+describe("Streaming decoder", () => {
+  test("yields bounded batches covering every decoded point", async () => {
+    const batches = await collect(decodeUDPLogStream(rows, { batchSize: 4 }));
+    const points = batches.flat();
+
+    expect(batches.length).toBe(5);
+    for (const batch of batches) expect(batch.length).toBeLessThanOrEqual(6);
+    expect(points.length).toBe(transformUDPLogToTimeSeries(rows).length);
+  });
+
+  test("decodes rows read from a JSONEachRow byte stream", async () => {
+    const text = rows.map((entry) => JSON.stringify(entry)).join("\n") + "\n";
+    const points: DecodedPoint[] = (
+      await collect(decodeUDPLogStream(readJSONEachRow(chunked(text, 7))))
+    ).flat();
+
+    expect(points.length).toBe(30);
+    expect(
+      points
+        .filter((point) => point.label === "Volume Delivered")
+        .map((point) => point.value)
+    ).toEqual([0, 10, 20, 30, 40, 50, 60, 70, 80, 90]);
+  });
+});
@@ -0,0 +1,159 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { stringify as stringifyYAML } from "yaml";
+import { transformUDPLogToTimeSeries } from "../index.ts";
+import { udpConfig } from "../udp_config.ts";
+import {
+  createVersionedConfigResolver,
+  loadUdpConfigVersionsFile,
+} from "../versions.ts";
+import { messageRow, withRenamedFuelLevel } from "./helpers.ts";
+
+const tempDir = mkdtempSync(join(tmpdir(), "tpg-versions-"));
+
+afterAll(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+// Versions only rename the field, so the frame bytes are the same for all of them
+function fuelRow(date: number) {
+  return messageRow(date, "dock", 2, { "Fuel Level": 42 });
+}
+
+function hashRow(date: number, hash: bigint) {
+  return messageRow(date, "dock", 7, { Hash: hash });
+}
+
+const v1 = {
+  name: "v1",
+  config: withRenamedFuelLevel("Fuel v1"),
+  effectiveTo: 2000,
+};
+const v2 = {
+  name: "v2",
+  config: withRenamedFuelLevel("Fuel v2"),
+  effectiveFrom: 2000,
+  firmwareHashes: ["0xabcdef0123456789"],
+};
+
+describe("versioned UDP configs", () => {
+  test("picks the version whose date range contains each row", () => {
+    const configResolver = createVersionedConfigResolver([v1, v2]);
+    const labels = transformUDPLogToTimeSeries([fuelRow(1000), fuelRow(2000)], {
+      configResolver,
+    }).map((entry) => entry.label);
+
+    expect(labels).toContain("Fuel v1");
+    expect(labels).toContain("Fuel v2");
+  });
+
+  test("a reported firmware hash overrides the date range", () => {
+    const configResolver = createVersionedConfigResolver([v1, v2]);
+    const labels = transformUDPLogToTimeSeries(
+      [hashRow(500, 0xabcdef0123456789n), fuelRow(1000)],
+      { configResolver }
+    ).map((entry) => entry.label);
+
+    expect(configResolver.getCurrentHash("dock")).toBe(
+      0xabcdef0123456789n.toString()
+    );
+    expect(labels).toContain("Fuel v2");
+    expect(labels).not.toContain("Fuel v1");
+
+    configResolver.reset();
+    expect(configResolver.getCurrentHash("dock")).toBeUndefined();
+  });
+
+  test("the dock's hash doesn't pick the config for other devices", () => {
+    const v2Swarmbot = structuredClone(v2);
+    const field =
+      v2Swarmbot.config["SwarmBot Messages"].Messages["1"]?.Fields[0];
+    if (!field) throw new Error("Swarmbot message 1 has no fields");
+    field.label = "Swarmbot v2";
+    const configResolver = createVersionedConfigResolver([v2Swarmbot], {
+      fallback: udpConfig,
+    });
+    const labels = transformUDPLogToTimeSeries(
+      [hashRow(500, 0xabcdef0123456789n), messageRow(1000, "swarmbot", 1, {})],
+      { configResolver }
+    ).map((entry) => entry.label);
+
+    expect(labels).not.toContain("Swarmbot v2");
+    expect(configResolver.getCurrentHash("swarmbot")).toBeUndefined();
+  });
+
+  test("ignores a hash point that isn't an integer", () => {
+    const configResolver = createVersionedConfigResolver([v1, v2], {
+      hashPointId: "dock_0002_Battery Voltage",
+    });
+    const row = messageRow(500, "dock", 2, { "Battery Voltage": 24.5 });
+
+    expect(() =>
+      transformUDPLogToTimeSeries([row], { configResolver })
+    ).not.toThrow();
+    expect(configResolver.getCurrentHash("dock")).toBeUndefined();
+  });
+
+  test("falls back when nothing matches", () => {
+    const configResolver = createVersionedConfigResolver([v2], {
+      fallback: udpConfig,
+    });
+    const labels = transformUDPLogToTimeSeries(
+      [hashRow(500, 1n), fuelRow(1000)],
+      { configResolver }
+    ).map((entry) => entry.label);
+
+    expect(labels).toContain("Fuel Level");
+  });
+
+  test("rejects a hash listed by two versions", () => {
+    expect(() =>
+      createVersionedConfigResolver([
+        { ...v1, firmwareHashes: ["11259375"] },
+        { ...v2, firmwareHashes: ["0xabcdef"] },
+      ])
+    ).toThrow("listed by both");
+  });
+
+  test("loads a manifest with configs relative to it", async () => {
+    writeFileSync(
+      join(tempDir, "v2.json"),
+      JSON.stringify(withRenamedFuelLevel("Fuel v2"))
+    );
+    const manifestPath = join(tempDir, "versions.yaml");
+    writeFileSync(
+      manifestPath,
+      stringifyYAML({
+        versions: [
+          {
+            name: "v2",
+            config: "./v2.json",
+            effectiveFrom: "1970-01-01T00:00:02Z",
+            firmwareHashes: ["0xff"],
+          },
+        ],
+      })
+    );
+
+    const [version] = await loadUdpConfigVersionsFile(manifestPath);
+    expect(version?.name).toBe("v2");
+    expect(version?.effectiveFrom).toBe(2000);
+    expect(version?.firmwareHashes).toEqual(["255"]);
+    expect(version?.config).toEqual(withRenamedFuelLevel("Fuel v2"));
+  });
+
+  test("reports invalid manifest dates with their path", async () => {
+    const manifestPath = join(tempDir, "broken.json");
+    writeFileSync(
+      manifestPath,
+      JSON.stringify({
+        versions: [{ name: "x", config: "x.json", effectiveFrom: "soon" }],
+      })
+    );
+    await expect(loadUdpConfigVersionsFile(manifestPath)).rejects.toThrow(
+      "versions[0].effectiveFrom"
+    );
+  });
+});
@@ -231,7 +231,7 @@ export const udpConfig: UdpConfig = {
           },
           {
             dependent_on: {
-              byte: 19,
+              byte: 3,
               bit: 7,
             },
             label: "Decoded | Voltage",
@@ -248,7 +248,7 @@ export const udpConfig: UdpConfig = {
           },
           {
             dependent_on: {
-              byte: 19,
+              byte: 3,
               bit: 7,
             },
             label: "Raw | Current",
@@ -0,0 +1,209 @@
+import { dirname, resolve as resolvePath } from "path";
+import { z } from "zod";
+import { loadUdpConfigFile, readConfigFile, validateConfig } from "./config";
+import {
+  getUdpConfig,
+  type DecodedPoint,
+  type UdpConfig,
+  type UdpConfigContext,
+  type UdpConfigResolver,
+} from "./index";
+
+/* ============================
+ * Types
+ * ============================ */
+
+/**
+ * One UDP config and the logs it applies to.
+ */
+export interface UdpConfigVersion {
+  name: string;
+  config: UdpConfig;
+  /** Start of the date range, epoch ms (inclusive). Open-ended when omitted. */
+  effectiveFrom?: number;
+  /** End of the date range, epoch ms (exclusive). Open-ended when omitted. */
+  effectiveTo?: number;
+  /** Firmware hashes reported by the dock's "Current Hash" message, decimal or 0x-hex. */
+  firmwareHashes?: string[];
+}
+
+export interface VersionedConfigResolver extends UdpConfigResolver {
+  observe: (point: DecodedPoint) => void;
+  /** Latest firmware hash `sender` (device name) reported in the log (decimal), if any. */
+  getCurrentHash: (sender: string) => string | undefined;
+  /** Forgets the tracked hashes, e.g. before decoding an unrelated log. */
+  reset: () => void;
+}
+
+export interface VersionedConfigResolverOptions {
+  /** Config used when no version matches. Defaults to the active config (see setUdpConfig). */
+  fallback?: UdpConfig | (() => UdpConfig);
+  /**
+   * Point id carrying the firmware hash. Defaults to the dock's "Current Hash" field. The hash
+   * only picks the config for rows of the device that reports it.
+   */
+  hashPointId?: string;
+}
+
+/* ============================
+ * Constants
+ * ============================ */
+
+const CURRENT_HASH_POINT_ID = "dock_0007_Hash";
+
+const DateSchema = z.union([z.number(), z.string()]).transform((value, ctx) => {
+  const time = typeof value === "number" ? value : Date.parse(value);
+  if (Number.isNaN(time)) {
+    ctx.addIssue({ code: "custom", message: `Invalid date '${value}'` });
+    return z.NEVER;
+  }
+  return time;
+});
+
+const HashSchema = z.union([z.string(), z.number()]).transform((value, ctx) => {
+  try {
+    return normalizeHash(value);
+  } catch {
+    ctx.addIssue({ code: "custom", message: `Invalid hash '${value}'` });
+    return z.NEVER;
+  }
+});
+
+// Manifest entries reference config files relative to the manifest itself
+const VersionManifestSchema = z.object({
+  versions: z.array(
+    z.object({
+      name: z.string(),
+      config: z.string(), // path to a JSON/YAML UDP config
+      effectiveFrom: DateSchema.optional(),
+      effectiveTo: DateSchema.optional(),
+      firmwareHashes: z.array(HashSchema).optional(),
+    })
+  ),
+});
+
+/* ============================
+ * Helpers
+ * ============================ */
+
+/**
+ * Normalizes a hash written as decimal or 0x-hex to its decimal string.
+ * @throws when the hash isn't an integer
+ */
+function normalizeHash(hash: string | number | bigint): string {
+  return BigInt(hash).toString();
+}
+
+function isInRange(version: UdpConfigVersion, timestamp: number): boolean {
+  const { effectiveFrom, effectiveTo } = version;
+  if (effectiveFrom === undefined && effectiveTo === undefined) return false;
+  return (
+    (effectiveFrom === undefined || timestamp >= effectiveFrom) &&
+    (effectiveTo === undefined || timestamp < effectiveTo)
+  );
+}
+
+/* ============================
+ * Resolver
+ * ============================ */
+
+/**
+ * Creates a resolver that picks a config version per row. A version listing the firmware
+ * hash last reported by the row's device (the dock, by default) wins; otherwise the version
+ * whose date range contains the row's timestamp (latest start first); otherwise the fallback.
+ */
+export function createVersionedConfigResolver(
+  versions: UdpConfigVersion[],
+  options: VersionedConfigResolverOptions = {}
+): VersionedConfigResolver {
+  const { fallback = getUdpConfig, hashPointId = CURRENT_HASH_POINT_ID } =
+    options;
+
+  const byHash = new Map<string, UdpConfigVersion>();
+  for (const version of versions) {
+    for (const hash of version.firmwareHashes ?? []) {
+      const key = normalizeHash(hash);
+      const existing = byHash.get(key);
+      if (existing) {
+        throw new Error(
+          `Firmware hash ${hash} is listed by both '${existing.name}' and '${version.name}'.`
+        );
+      }
+      byHash.set(key, version);
+    }
+  }
+  const byDate = versions
+    .filter((v) => v.effectiveFrom !== undefined || v.effectiveTo !== undefined)
+    .sort(
+      (a, b) => (b.effectiveFrom ?? -Infinity) - (a.effectiveFrom ?? -Infinity)
+    );
+
+  // Latest hash by the device name that reported it
+  const currentHashes = new Map<string, string>();
+
+  return {
+    resolve({ timestamp, deviceName }: UdpConfigContext): UdpConfig {
+      const currentHash = currentHashes.get(deviceName);
+      const hashed = currentHash !== undefined && byHash.get(currentHash);
+      if (hashed) return hashed.config;
+
+      const dated = byDate.find((version) => isInRange(version, timestamp));
+      if (dated) return dated.config;
+
+      return typeof fallback === "function" ? fallback() : fallback;
+    },
+
+    observe(point: DecodedPoint): void {
+      if (point.id !== hashPointId) return;
+      // A hash field configured as a non-integer type can't name a version
+      if (point.exactValue === undefined && !Number.isInteger(point.value)) {
+        return;
+      }
+      currentHashes.set(
+        point.sender,
+        point.exactValue ?? normalizeHash(point.value)
+      );
+    },
+
+    getCurrentHash: (sender) => currentHashes.get(sender),
+
+    reset(): void {
+      currentHashes.clear();
+    },
+  };
+}
+
+/* ============================
+ * Loading
+ * ============================ */
+
+/**
+ * Loads config versions from a JSON or YAML manifest such as:
+ *
+ * ```yaml
+ * versions:
+ *   - name: fw-2.1
+ *     config: ./udp_config.fw-2.1.yaml
+ *     effectiveFrom: 2025-03-01T00:00:00Z
+ *     firmwareHashes: ["0x1f2e3d4c5b6a7988"]
+ * ```
+ *
+ * Every referenced config is validated like loadUdpConfigFile does.
+ */
+export async function loadUdpConfigVersionsFile(
+  path: string
+): Promise<UdpConfigVersion[]> {
+  const manifest = validateConfig(
+    VersionManifestSchema,
+    await readConfigFile(path),
+    path
+  );
+  const baseDir = dirname(path);
+
+  return Promise.all(
+    manifest.versions.map(async (entry) => ({
+      ...entry,
+      config: await loadUdpConfigFile(resolvePath(baseDir, entry.config)),
+    }))
+  );
+}